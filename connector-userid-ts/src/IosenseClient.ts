@@ -0,0 +1,228 @@
+import DataAccess from './connectors/data/DataAccess.js';
+import EventsHandler from './connectors/data/EventsHandler.js';
+import MachineTimeline from './connectors/data/MachineTimeline.js';
+import BruceHandler from './connectors/data/BruceHandler.js';
+import { MqttConnector, MqttConfig } from './connectors/pubsub/mqttHandler.js';
+import { BaseUrl, CaCertificates, HttpTransport } from './utils/transport.js';
+import { IosenseError } from './utils/errors.js';
+import { Logger, resolveLogger } from './utils/logger.js';
+import { CacheStore } from './utils/cache.js';
+import { CalibrationRegistry } from './utils/calibration.js';
+import { AuthProvider } from './utils/auth.js';
+import { Tracer, TransportHooks } from './utils/telemetry.js';
+import { RateLimitConfig } from './utils/rateLimit.js';
+import {
+  LoadProfileOptions,
+  loadProfile,
+  profileConnection,
+} from './utils/config.js';
+import { VERSION } from './utils/constants.js';
+
+// Type definitions for IosenseClient
+export interface IosenseClientConfig {
+  userId: string;
+  dataUrl: string;
+  dsUrl?: string;
+  onPrem?: boolean;
+  baseUrl?: BaseUrl;
+  baseUrls?: ServiceBaseUrls;
+  tz?: string;
+  transport?: HttpTransport;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  hooks?: TransportHooks;
+  tracer?: Tracer;
+  rateLimit?: RateLimitConfig;
+  coalesce?: boolean;
+  auth?: AuthProvider;
+  legacyErrors?: boolean;
+  logger?: Logger;
+  cacheTtlMs?: number;
+  cacheStore?: CacheStore;
+  validateDevices?: boolean;
+  calibration?: CalibrationRegistry;
+  mqtt?: Omit<MqttConfig, 'logger'>;
+}
+
+export interface ServiceBaseUrls {
+  data?: BaseUrl;
+  events?: BaseUrl;
+  timeline?: BaseUrl;
+  insights?: BaseUrl;
+}
+
+/**
+ * Single entry point to the IoSense platform.
+ *
+ * Takes the connection settings once and exposes every handler built from
+ * them. All handlers share one HttpTransport, one logger and one DataAccess
+ * instance, so connection settings, retry policy and metadata lookups are
+ * consistent across `.data`, `.events`, `.timeline` and `.insights`.
+ *
+ * @example
+ * ```typescript
+ * const client = new IosenseClient({
+ *   userId: 'your-user-id',
+ *   dataUrl: 'your-data-url.com',
+ *   dsUrl: 'your-ds-url.com',
+ *   tz: 'Asia/Kolkata',
+ *   mqtt: { broker: 'broker.example.com', port: 1883, username, password }
+ * });
+ *
+ * const devices = await client.data.getDeviceDetails();
+ * const events = await client.events.getEventCategories();
+ *
+ * await client.mqtt.connect();
+ * ```
+ */
+export default class IosenseClient {
+  public readonly data: DataAccess;
+  public readonly events: EventsHandler;
+  public readonly timeline: MachineTimeline;
+  public readonly insights: BruceHandler;
+  public readonly transport: HttpTransport;
+  public readonly logger: Logger;
+  public readonly version: string = VERSION;
+  private readonly mqttConfig?: Omit<MqttConfig, 'logger'>;
+  private mqttConnector: MqttConnector | null = null;
+
+  /**
+   * Creates the client and all of its handlers.
+   * @param config - Connection settings shared by every handler.
+   * @param config.userId - The user ID to use for API requests.
+   * @param config.dataUrl - The data URL for the API.
+   * @param config.dsUrl - The DS URL for the API. Defaults to dataUrl.
+   * @param config.onPrem - Whether the API is on-premises or Live. Defaults to false.
+   * @param config.baseUrl - Full base URL of the API (protocol, host, port and path prefix), overriding dataUrl and onPrem for every handler.
+   * @param config.baseUrls - Base URL per handler (`data`, `events`, `timeline`, `insights`), overriding baseUrl.
+   * @param config.tz - Timezone to use. Defaults to "UTC".
+   * @param config.transport - HTTP transport shared by all handlers. Defaults to a new HttpTransport using the client logger, proxy and ca.
+   * @param config.proxy - HTTP(S) proxy URL, or false to ignore the HTTP(S)_PROXY variables. Not used with a custom transport.
+   * @param config.ca - Extra trusted CA certificates (PEM). Not used with a custom transport.
+   * @param config.hooks - Request lifecycle callbacks (onRequest, onResponse, onRetry, onError) for metrics. Not used with a custom transport.
+   * @param config.tracer - Creates a span per public call and per request. Not used with a custom transport.
+   * @param config.rateLimit - Requests per second (and burst) allowed per host, with optional per-host limits. Not used with a custom transport.
+   * @param config.coalesce - Share one response between identical concurrent reads. Defaults to true. Not used with a custom transport.
+   * @param config.auth - Credentials sent with every request by every handler. Defaults to the `userID` header.
+   * @param config.legacyErrors - Log failures and return empty results instead of throwing. Defaults to false.
+   * @param config.logger - Logger shared by all handlers. Defaults to a silent logger.
+   * @param config.cacheTtlMs - How long device details and metadata are cached, in milliseconds. 0 disables caching.
+   * @param config.cacheStore - Where cached metadata is kept. Defaults to an in-memory store.
+   * @param config.validateDevices - Check that devices belong to the account before querying data. Defaults to true.
+   * @param config.calibration - Per-sensor calibration used by `.data`. Defaults to the built-in types driven by metadata params.
+   * @param config.mqtt - Broker settings, required only when `.mqtt` is used.
+   */
+  constructor({
+    userId,
+    dataUrl,
+    dsUrl = dataUrl,
+    onPrem = false,
+    baseUrl,
+    baseUrls = {},
+    tz = 'UTC',
+    transport,
+    proxy,
+    ca,
+    hooks,
+    tracer,
+    rateLimit,
+    coalesce,
+    auth,
+    legacyErrors = false,
+    logger,
+    cacheTtlMs,
+    cacheStore,
+    validateDevices,
+    calibration,
+    mqtt,
+  }: IosenseClientConfig) {
+    this.logger = resolveLogger(logger);
+    this.transport =
+      transport ??
+      new HttpTransport({
+        logger: this.logger,
+        proxy,
+        ca,
+        hooks,
+        tracer,
+        rateLimit,
+        coalesce,
+      });
+    this.mqttConfig = mqtt;
+
+    const shared = {
+      userId,
+      dataUrl,
+      onPrem,
+      tz,
+      transport: this.transport,
+      auth,
+      logger: this.logger,
+    };
+
+    this.data = new DataAccess({
+      ...shared,
+      baseUrl: baseUrls.data ?? baseUrl,
+      dsUrl,
+      legacyErrors,
+      cacheTtlMs,
+      cacheStore,
+      validateDevices,
+      calibration,
+    });
+    this.events = new EventsHandler({
+      ...shared,
+      baseUrl: baseUrls.events ?? baseUrl,
+      legacyErrors,
+    });
+    this.timeline = new MachineTimeline({
+      ...shared,
+      baseUrl: baseUrls.timeline ?? baseUrl,
+      legacyErrors,
+    });
+    this.insights = new BruceHandler({
+      ...shared,
+      baseUrl: baseUrls.insights ?? baseUrl,
+      dataAccess: this.data,
+    });
+  }
+
+  /**
+   * Creates a client from a named connection profile (see `loadProfile`).
+   * @param options - Profile name, config file, environment and overrides
+   * @param config - Other client settings, such as a logger or cache options
+   * @returns The client
+   * @throws ConfigError if the profile is missing or invalid
+   *
+   * @example
+   * ```typescript
+   * const client = await IosenseClient.fromProfile({ profile: 'plant-a' });
+   * ```
+   */
+  static async fromProfile(
+    options: LoadProfileOptions = {},
+    config: Partial<IosenseClientConfig> = {}
+  ): Promise<IosenseClient> {
+    const connection = profileConnection(await loadProfile(options));
+    return new IosenseClient({ ...connection, ...config });
+  }
+
+  /**
+   * MQTT connector for the broker given in `config.mqtt`, created on first use.
+   * @throws IosenseError if the client was created without MQTT settings.
+   */
+  get mqtt(): MqttConnector {
+    if (!this.mqttConnector) {
+      if (!this.mqttConfig) {
+        throw new IosenseError(
+          'MQTT is not configured. Pass `mqtt` to the IosenseClient config.'
+        );
+      }
+      this.mqttConnector = new MqttConnector({
+        ...this.mqttConfig,
+        logger: this.logger,
+      });
+    }
+    return this.mqttConnector;
+  }
+}
@@ -0,0 +1,373 @@
+#!/usr/bin/env node
+import { Console } from 'node:console';
+import { parseArgs } from 'node:util';
+import IosenseClient from '../IosenseClient.js';
+import { DeviceDetail, DeviceMetadata } from '../connectors/data/DataAccess.js';
+import { ValidationError } from '../utils/errors.js';
+import { createConsoleLogger } from '../utils/logger.js';
+import { ResampleInterval } from '../utils/resample.js';
+import { TimeFormat } from '../utils/time.js';
+import { VERSION } from '../utils/constants.js';
+import {
+  ConnectionProfile,
+  loadProfile,
+  profileConnection,
+} from '../utils/config.js';
+import { OutputFormat, parseFormat, printObject, printRows } from './output.js';
+
+// Type definitions for the CLI
+type Flags = ParsedArgs['values'];
+
+interface CommandContext {
+  args: string[];
+  flags: Flags;
+  format: OutputFormat;
+  client: IosenseClient;
+  profile: ConnectionProfile;
+  signal: AbortSignal;
+}
+
+type Command = (context: CommandContext) => Promise<void>;
+
+const USAGE = `Usage: iosense <command> [options]
+
+Commands:
+  devices                           List the devices of the account
+  metadata <device>                 Show the sensors of a device (all metadata with --format json)
+  query <device>                    Download sensor data
+      --from <time> --to <time>     Time range (ISO, Unix ms or "YYYY-MM-DD HH:mm:ss" in --tz)
+      --sensors <ids|names>         Comma-separated sensor IDs or names (default: all)
+      --resample <interval>         Aggregate to 1m, 15m, 1h, shift or day
+      --raw                         Skip calibration
+      --alias                       Use sensor names as column names
+      --time-format <format>        iso, unix or local
+  events --from <time> [--to]       List events in a time range
+  timeline rows <device>            List machine timeline rows [--from --to --limit]
+  insights list                     List the insights of the user [--page --count]
+  insights results <insightId>      List the results of an insight [--from --to --page --count]
+  mqtt tail [topic]                 Print MQTT messages until interrupted (default devicesIn/+/data);
+                                    broker from IOSENSE_MQTT_BROKER, _PORT, _USERNAME and _PASSWORD
+
+Connection (flags override IOSENSE_<PROFILE>_* variables, then the profile, then IOSENSE_* variables):
+  -p, --profile <name>              Profile in the config file (IOSENSE_PROFILE, default "default");
+                                    IOSENSE_* variables only fill settings the profile leaves out
+      --config <file>               JSON or YAML config file (IOSENSE_CONFIG, default ~/.iosense/config.{json,yaml,yml})
+      --user-id <id>                IOSENSE_USER_ID
+      --data-url <host>             IOSENSE_DATA_URL
+      --ds-url <host>               IOSENSE_DS_URL
+      --on-prem                     Use http (IOSENSE_ON_PREM)
+      --base-url <url>              Full API URL with protocol, port and path prefix (IOSENSE_BASE_URL)
+      --proxy <url>                 HTTP(S) proxy (IOSENSE_PROXY)
+      --ca-file <file>              Extra trusted CA certificates, PEM (IOSENSE_CA_FILE)
+      --rate-limit <n>              Send at most n requests per second per host (IOSENSE_RATE_LIMIT)
+      --tz <zone>                   Timezone for naive times (IOSENSE_TZ)
+      --token <token>               Send a bearer token instead of the userID header (IOSENSE_TOKEN)
+
+Output:
+  -f, --format <format>             table (default), json, csv or ndjson
+      --verbose                     Log requests to stderr
+  -h, --help                        Show this help
+  -v, --version                     Show the version
+`;
+
+const OPTIONS = {
+  profile: { type: 'string', short: 'p' },
+  config: { type: 'string' },
+  'user-id': { type: 'string' },
+  'data-url': { type: 'string' },
+  'ds-url': { type: 'string' },
+  'on-prem': { type: 'boolean' },
+  'base-url': { type: 'string' },
+  proxy: { type: 'string' },
+  'ca-file': { type: 'string' },
+  'rate-limit': { type: 'string' },
+  tz: { type: 'string' },
+  token: { type: 'string' },
+  format: { type: 'string', short: 'f' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  sensors: { type: 'string' },
+  resample: { type: 'string' },
+  raw: { type: 'boolean' },
+  alias: { type: 'boolean' },
+  'time-format': { type: 'string' },
+  limit: { type: 'string' },
+  page: { type: 'string' },
+  count: { type: 'string' },
+} as const;
+
+type ParsedArgs = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>;
+
+function parse(argv: string[]): ParsedArgs {
+  return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+}
+
+/**
+ * Reads the required positional argument at `index`.
+ * @throws ValidationError naming the argument when it is missing
+ */
+function positional(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (!value) throw new ValidationError(`Missing argument <${name}>`);
+  return value;
+}
+
+function required(value: string | undefined, flag: string): string {
+  if (!value) throw new ValidationError(`Missing option --${flag}`);
+  return value;
+}
+
+/**
+ * Reads a time option: digits are Unix milliseconds, anything else is passed
+ * on as a date string.
+ */
+function time(value: string): string | Date {
+  return /^\d+$/.test(value) ? new Date(Number(value)) : value;
+}
+
+function integer(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError(`--${flag} must be a positive integer`);
+  }
+  return parsed;
+}
+
+const commands: Record<string, Command> = {
+  devices: async ({ client, format, signal }) => {
+    // Without legacyErrors these never resolve to the empty object
+    const devices = (await client.data.getDeviceDetails(
+      undefined,
+      signal
+    )) as DeviceDetail[];
+    await printRows(devices, { format });
+  },
+
+  metadata: async ({ args, client, format, signal }) => {
+    const deviceId = positional(args, 1, 'device');
+    const metadata = (await client.data.getDeviceMetaData(
+      deviceId,
+      undefined,
+      signal
+    )) as DeviceMetadata;
+    if (format === 'json') {
+      await printObject(metadata, format);
+    } else {
+      const rows = metadata.sensors.map(sensor => ({
+        sensorId: sensor.sensorId,
+        sensorName: sensor.sensorName,
+        unit: metadata.unitSelected?.[sensor.sensorId] ?? '',
+      }));
+      await printRows(rows, { format });
+    }
+  },
+
+  query: async ({ args, flags, client, format, signal }) => {
+    const deviceId = positional(args, 1, 'device');
+    const options = {
+      deviceId,
+      startTime: time(required(flags.from, 'from')),
+      endTime: flags.to ? time(flags.to) : new Date(),
+      sensorList: flags.sensors
+        ? flags.sensors.split(',').map(s => s.trim())
+        : null,
+      cal: !flags.raw,
+      alias: flags.alias ?? false,
+      timeFormat: flags['time-format'] as TimeFormat | undefined,
+      resample: flags.resample
+        ? { interval: flags.resample as ResampleInterval }
+        : null,
+      signal,
+    };
+    // Streaming keeps memory flat for long ranges in the line-based formats
+    const rows =
+      format === 'csv' || format === 'ndjson'
+        ? client.data.dataQueryStream(options)
+        : await client.data.dataQuery(options);
+    await printRows(rows, { format });
+  },
+
+  events: async ({ flags, client, format, signal }) => {
+    const events = await client.events.getEventsInTimeslot({
+      startTime: time(required(flags.from, 'from')),
+      endTime: flags.to ? time(flags.to) : undefined,
+      signal,
+    });
+    await printRows(events, { format });
+  },
+
+  timeline: async ({ args, flags, client, format, signal }) => {
+    if (args[1] !== 'rows') {
+      throw new ValidationError('Usage: iosense timeline rows <device>');
+    }
+    const rows = await client.timeline.getMongoData({
+      devID: positional(args, 2, 'device'),
+      startTime: flags.from,
+      endTime: flags.to,
+      limit: integer(flags.limit, 'limit'),
+      signal,
+    });
+    await printRows(rows, { format });
+  },
+
+  insights: async ({ args, flags, client, format, signal }) => {
+    const pagination = {
+      page: integer(flags.page, 'page') ?? 1,
+      count: integer(flags.count, 'count') ?? 50,
+    };
+    if (args[1] === 'list') {
+      const insights = await client.insights.fetchUserInsights({
+        pagination,
+        signal,
+      });
+      await printRows(insights, {
+        format,
+        columns:
+          format === 'table'
+            ? ['insightID', 'insightName', 'source', 'createdAt']
+            : undefined,
+      });
+    } else if (args[1] === 'results') {
+      const { results } = await client.insights.fetchInsightResults({
+        insightId: positional(args, 2, 'insightId'),
+        filter: { startDate: flags.from, endDate: flags.to },
+        pagination,
+        signal,
+      });
+      await printRows(results, {
+        format,
+        columns:
+          format === 'table'
+            ? ['_id', 'resultName', 'applicationType', 'invocationTime']
+            : undefined,
+      });
+    } else {
+      throw new ValidationError(
+        'Usage: iosense insights list | iosense insights results <insightId>'
+      );
+    }
+  },
+
+  mqtt: async ({ args, client, profile, format, signal }) => {
+    if (args[1] !== 'tail') {
+      throw new ValidationError('Usage: iosense mqtt tail [topic]');
+    }
+    if (!profile.mqtt) {
+      throw new ValidationError(
+        'No MQTT broker: set IOSENSE_MQTT_BROKER or add mqtt to the profile'
+      );
+    }
+    const topic = args[2] ?? 'devicesIn/+/data';
+    const mqtt = client.mqtt;
+    await mqtt.connect();
+    await mqtt.subscribe(topic, (received, message) => {
+      const line =
+        format === 'table'
+          ? `${new Date().toISOString()}  ${received}  ${typeof message === 'string' ? message : JSON.stringify(message)}`
+          : JSON.stringify({
+              time: new Date().toISOString(),
+              topic: received,
+              message,
+            });
+      process.stdout.write(line + '\n');
+    });
+    await new Promise(resolve =>
+      signal.addEventListener('abort', resolve, { once: true })
+    );
+    await mqtt.close();
+  },
+};
+
+function usageError(message: string): number {
+  process.stderr.write(
+    `iosense: ${message}\nRun "iosense --help" for usage.\n`
+  );
+  return 2;
+}
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths).
+ * @param argv - Command-line arguments
+ * @returns The process exit code: 2 for usage errors, 1 for failed requests
+ */
+async function main(argv: string[]): Promise<number> {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parse(argv);
+  } catch (error: any) {
+    return usageError(error.message);
+  }
+  const { values: flags, positionals: args } = parsed;
+
+  if (flags.version) {
+    process.stdout.write(`${VERSION}\n`);
+    return 0;
+  }
+  if (flags.help || args.length === 0) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const command = commands[args[0]];
+  if (!command) return usageError(`unknown command "${args[0]}"`);
+
+  const controller = new AbortController();
+  const onInterrupt = (): void => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  try {
+    const format = parseFormat(flags.format);
+    const profile = await loadProfile({
+      profile: flags.profile,
+      file: flags.config,
+      overrides: {
+        userId: flags['user-id'],
+        dataUrl: flags['data-url'],
+        dsUrl: flags['ds-url'],
+        onPrem: flags['on-prem'],
+        baseUrl: flags['base-url'],
+        proxy: flags.proxy,
+        caFile: flags['ca-file'],
+        rateLimit:
+          flags['rate-limit'] !== undefined
+            ? Number(flags['rate-limit'])
+            : undefined,
+        tz: flags.tz,
+        token: flags.token,
+      },
+    });
+    const client = new IosenseClient({
+      ...profileConnection(profile),
+      // stdout carries the command output, so logs go to stderr
+      logger: flags.verbose
+        ? createConsoleLogger(
+            'debug',
+            new Console({ stdout: process.stderr, stderr: process.stderr })
+          )
+        : undefined,
+    });
+    await command({
+      args,
+      flags,
+      format,
+      client,
+      profile,
+      signal: controller.signal,
+    });
+    return 0;
+  } catch (error: any) {
+    if (controller.signal.aborted) return 130;
+    process.stderr.write(`iosense: ${error?.message ?? error}\n`);
+    return error instanceof ValidationError ? 2 : 1;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,129 @@
+import { ValidationError } from '../utils/errors.js';
+import {
+  RowSource,
+  batchesOf,
+  writeCsv,
+  writeNdjson,
+} from '../utils/export.js';
+
+// Type definitions for CLI output
+export type OutputFormat = 'table' | 'json' | 'csv' | 'ndjson';
+
+export interface PrintOptions {
+  format: OutputFormat;
+  columns?: string[];
+  metadata?: { sensors?: Array<{ sensorId: string; sensorName: string }> };
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  'table',
+  'json',
+  'csv',
+  'ndjson',
+];
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Checks a `--format` value.
+ * @throws ValidationError for unknown formats
+ */
+export function parseFormat(value: string | undefined): OutputFormat {
+  const format = (value ?? 'table') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Unknown format "${value}"; use one of ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+  return format;
+}
+
+/**
+ * Writes rows to stdout in the requested format. CSV and NDJSON are written
+ * batch by batch, so streamed query results are never held in memory; table
+ * and JSON output collect the rows first.
+ * @param source - Rows, or batches of rows
+ * @param options - Format, column list and metadata for alias ordering
+ */
+export async function printRows(
+  source: RowSource,
+  options: PrintOptions
+): Promise<void> {
+  const { format, columns, metadata } = options;
+  if (format === 'csv') {
+    await writeCsv(source, process.stdout, { columns, metadata });
+    return;
+  }
+  if (format === 'ndjson') {
+    await writeNdjson(source, process.stdout, { columns, metadata });
+    return;
+  }
+
+  const rows: any[] = [];
+  for await (const batch of batchesOf(source)) rows.push(...batch);
+  const selected = columns
+    ? rows.map(row => Object.fromEntries(columns.map(c => [c, row[c]])))
+    : rows;
+
+  if (format === 'json') {
+    process.stdout.write(JSON.stringify(selected, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatTable(selected, columns));
+  }
+}
+
+/**
+ * Writes one value (such as a metadata document) to stdout: JSON for the
+ * json and ndjson formats, key/value rows otherwise.
+ */
+export async function printObject(
+  value: Record<string, any>,
+  format: OutputFormat
+): Promise<void> {
+  if (format === 'json' || format === 'ndjson') {
+    process.stdout.write(
+      JSON.stringify(value, null, format === 'json' ? 2 : undefined) + '\n'
+    );
+    return;
+  }
+  const rows = Object.entries(value).map(([key, field]) => ({
+    key,
+    value: field,
+  }));
+  await printRows(rows, { format, columns: ['key', 'value'] });
+}
+
+/**
+ * Renders rows as a plain-text table with a header and aligned columns.
+ * Nested values are shown as JSON and long cells are truncated.
+ */
+export function formatTable(rows: readonly any[], columns?: string[]): string {
+  if (rows.length === 0) return '(no rows)\n';
+
+  const names = columns ?? [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const cells = rows.map(row => names.map(name => cellText(row[name])));
+  const widths = names.map((name, i) =>
+    Math.max(name.length, ...cells.map(line => line[i].length))
+  );
+  const line = (values: string[]): string =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd() + '\n';
+
+  return (
+    line(names) +
+    line(widths.map(width => '-'.repeat(width))) +
+    cells.map(line).join('')
+  );
+}
+
+function cellText(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length > MAX_CELL_WIDTH
+    ? flat.slice(0, MAX_CELL_WIDTH - 1) + '…'
+    : flat;
+}
@@ -1,13 +1,15 @@
-import axios, { AxiosResponse } from 'axios';
 import {
   FETCH_USER_INSIGHTS_URL,
   GET_SOURCE_INSIGHT_URL,
   FETCH_INSIGHT_RESULTS_URL,
-  Protocol,
-  VERSION,
-  MAX_RETRIES,
-  RETRY_DELAY
+  VERSION
 } from '../../utils/constants.js';
+import { BaseUrl, CaCertificates, HttpTransport, formatUrl, resolveBaseUrl } from '../../utils/transport.js';
+import { ApiError, IosenseError } from '../../utils/errors.js';
+import { Logger, resolveLogger } from '../../utils/logger.js';
+import { AuthProvider, createUserIdAuth } from '../../utils/auth.js';
+import { traceMethods } from '../../utils/telemetry.js';
+import { parseTime } from '../../utils/time.js';
 import DataAccess from './DataAccess.js';
 
 // Type definitions for BruceHandler
@@ -15,7 +17,14 @@ export interface BruceHandlerConfig {
   userId: string;
   dataUrl: string;
   onPrem?: boolean;
+  baseUrl?: BaseUrl;
   tz?: string;
+  transport?: HttpTransport;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  auth?: AuthProvider;
+  logger?: Logger;
+  dataAccess?: DataAccess;
 }
 
 export interface PopulateConfig {
@@ -34,6 +43,7 @@ export interface FetchUserInsightsOptions {
   sort?: Record<string, number>;
   projection?: string | null;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface SourceInsightID {
@@ -79,6 +89,7 @@ export interface ApiResponse<T = any> {
 export interface GetSourceInsightOptions {
   insightId: string;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface VectorConfig {
@@ -136,6 +147,7 @@ export interface FetchInsightResultsOptions {
   };
   pagination?: PaginationConfig;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface InsightResultFilter {
@@ -212,14 +224,25 @@ export default class BruceHandler {
   private userId: string;
   private dataUrl: string;
   private onPrem: boolean;
+  private baseUrl?: string;
   private tz: string;
+  private transport: HttpTransport;
+  private logger: Logger;
+  private dataAccess: DataAccess;
   public readonly version: string = VERSION;
 
   constructor({
     userId,
     dataUrl,
     onPrem = false,
-    tz = 'UTC'
+    baseUrl,
+    tz = 'UTC',
+    transport,
+    proxy,
+    ca,
+    auth = createUserIdAuth(userId),
+    logger,
+    dataAccess
   }: BruceHandlerConfig) {
     /**
      * A class to handle Bruce-related operations for user insights and analytics.
@@ -227,28 +250,54 @@ export default class BruceHandler {
      * @param userId - The user ID used for authentication and identification in requests
      * @param dataUrl - The URL or IP address of the server from which Bruce data is retrieved
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, uses HTTP; otherwise, uses HTTPS
+     * @param baseUrl - Full base URL of the API (protocol, host, port and path prefix). Overrides dataUrl and onPrem
      * @param tz - The timezone to use for time-related operations. Defaults to UTC if not provided
+     * @param transport - Shared HTTP transport (timeouts, retries, cancellation). Defaults to a new HttpTransport
+     * @param proxy - HTTP(S) proxy URL for the default transport, or false to ignore the HTTP(S)_PROXY variables
+     * @param ca - Extra trusted CA certificates (PEM) for the default transport
+     * @param auth - Credentials sent with every request. Defaults to the `userID` header
+     * @param logger - Receives diagnostic output. Defaults to a silent logger
+     * @param dataAccess - DataAccess used to look up the user's organisation. Defaults to one built from this config
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
+    this.baseUrl = baseUrl === undefined ? undefined : resolveBaseUrl(baseUrl);
     this.tz = tz;
-  }
-
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
+    this.logger = resolveLogger(logger);
+    this.transport = (transport ?? new HttpTransport({ logger: this.logger, proxy, ca })).withAuth(auth);
+    this.dataAccess = dataAccess ?? new DataAccess({
+      userId,
+      dataUrl,
+      dsUrl: dataUrl, // Using same URL for ds operations
+      onPrem,
+      baseUrl: this.baseUrl,
+      tz,
+      transport: this.transport,
+      auth,
+      logger: this.logger
+    });
   }
 
   private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
+    return formatUrl(template, this.dataUrl, onPrem ?? this.onPrem, this.baseUrl);
   }
 
-  private _sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async getOrganisationId(onPrem?: boolean, signal?: AbortSignal): Promise<string> {
+    /**
+     * Looks up the organisation ID of the user, which scopes the insight endpoints.
+     */
+    const userInfo = await this.dataAccess.getUserInfo(onPrem ?? this.onPrem, signal);
+    if (!userInfo || typeof userInfo !== 'object' || !('organisation' in userInfo)) {
+      throw new IosenseError('Failed to retrieve user organization information');
+    }
+
+    const organisation = (userInfo as any).organisation;
+    if (!organisation || !organisation._id) {
+      throw new IosenseError('Organization ID not found in user information');
+    }
+
+    return organisation._id;
   }
 
   async fetchUserInsights(options: FetchUserInsightsOptions = {}): Promise<UserInsight[]> {
@@ -284,7 +333,8 @@ export default class BruceHandler {
      *   - updatedAt: ISO timestamp of last update
      *   - updated_by: User ID who last updated the insight
      * 
-     * @throws Error if the API request fails or returns unsuccessful response
+     * @throws ApiError if the API request fails or returns unsuccessful response
+     * @throws MaxRetriesExceededError if the API stays unreachable after all retries
      */
     const {
       pagination = { page: 1, count: 1000 },
@@ -296,7 +346,8 @@ export default class BruceHandler {
       ],
       sort = { "createdAt": -1 },
       projection = null,
-      onPrem
+      onPrem,
+      signal
     } = options;
 
     const url = this.formatUrl(FETCH_USER_INSIGHTS_URL, onPrem);
@@ -311,35 +362,18 @@ export default class BruceHandler {
       }
     };
 
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
+    const headers = { 'Content-Type': 'application/json' };
 
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
-      try {
-        const response: AxiosResponse<FetchUserInsightsResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data && response.data.data.data) {
-          return response.data.data.data;
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
-      } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch user insights after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
-      }
-    }
+    const response = await this.transport.put<FetchUserInsightsResponse>(url, payload, { headers, signal, coalesce: true });
 
-    return [];
+    if (response.data.success && response.data.data && response.data.data.data) {
+      return response.data.data.data;
+    }
+    throw new ApiError('Failed to fetch user insights: API returned unsuccessful response', {
+      url,
+      status: response.status,
+      body: response.data
+    });
   }
 
   async getSourceInsight(options: GetSourceInsightOptions): Promise<SourceInsight> {
@@ -390,37 +424,15 @@ export default class BruceHandler {
      *   - firstDataPointTime: ISO timestamp of the earliest data point in the insight
      *   - lastDataPointTime: ISO timestamp of the most recent data point in the insight
      * 
-     * @throws Error if the user information cannot be retrieved or the API request fails
-     * @throws Error if the insight ID is not found or access is denied
-     * @throws Error if the organization information is missing from user data
+     * @throws ApiError if the user information cannot be retrieved or the API request fails
+     * @throws ApiError if the insight ID is not found or access is denied
+     * @throws IosenseError if the organization information is missing from user data
+     * @throws MaxRetriesExceededError if the API stays unreachable after all retries
      */
-    const { insightId, onPrem } = options;
-
-    // First, get user information to obtain organization ID
-    const dataAccess = new DataAccess({
-      userId: this.userId,
-      dataUrl: this.dataUrl,
-      dsUrl: this.dataUrl, // Using same URL for ds operations
-      onPrem: onPrem ?? this.onPrem,
-      tz: this.tz
-    });
+    const { insightId, onPrem, signal } = options;
 
-    let organisationId: string;
-    try {
-      const userInfo = await dataAccess.getUserInfo(onPrem);
-      if (!userInfo || typeof userInfo !== 'object' || !('organisation' in userInfo)) {
-        throw new Error('Failed to retrieve user organization information');
-      }
-      
-      const organisation = (userInfo as any).organisation;
-      if (!organisation || !organisation._id) {
-        throw new Error('Organization ID not found in user information');
-      }
-      
-      organisationId = organisation._id;
-    } catch (error: any) {
-      throw new Error(`Failed to get user organization: ${error.message}`);
-    }
+    // First, get the organization ID of the user
+    const organisationId = await this.getOrganisationId(onPrem, signal);
 
     // Now fetch the source insight using the organization ID
     const url = this.formatUrl(GET_SOURCE_INSIGHT_URL, onPrem)
@@ -432,85 +444,31 @@ export default class BruceHandler {
       }
     };
 
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
+    const headers = { 'Content-Type': 'application/json' };
 
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
-      try {
-        const response: AxiosResponse<GetSourceInsightResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data) {
-          return response.data.data;
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
-      } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch source insight after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
-      }
-    }
+    const response = await this.transport.put<GetSourceInsightResponse>(url, payload, { headers, signal, coalesce: true });
 
-    throw new Error('Failed to fetch source insight: Maximum retries exceeded');
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    throw new ApiError('Failed to fetch source insight: API returned unsuccessful response', {
+      url,
+      status: response.status,
+      body: response.data
+    });
   }
 
   private convertToUtc(time: string | Date, timezone: string = 'UTC'): string {
     /**
      * Converts a given time from the specified timezone to UTC ISO string.
      * 
-     * @param time - The time to convert (ISO string or Date object)
-     * @param timezone - The timezone of the input time (e.g., 'Asia/Kolkata', 'America/New_York')
+     * @param time - The time to convert (ISO string, naive "YYYY-MM-DD HH:mm:ss" string or Date object)
+     * @param timezone - The timezone naive strings are read in (e.g., 'Asia/Kolkata', 'America/New_York')
      * @returns ISO string in UTC
      */
     if (!time) return new Date().toISOString();
-    
-    let dateTime: Date;
-    if (typeof time === 'string') {
-      dateTime = new Date(time);
-    } else {
-      dateTime = time;
-    }
 
-    // If the date is invalid, throw an error
-    if (isNaN(dateTime.getTime())) {
-      throw new Error(`Invalid date format: ${time}`);
-    }
-
-    // If timezone is UTC, return as is
-    if (timezone === 'UTC') {
-      return dateTime.toISOString();
-    }
-
-    // For other timezones, we need to handle the conversion
-    // Note: This assumes the input time is in the specified timezone
-    // and we need to convert it to UTC
-    try {
-      // Create a date string that represents the time in the specified timezone
-      const timeInTimezone = dateTime.toLocaleString('en-US', { timeZone: timezone });
-      const timeInUtc = dateTime.toLocaleString('en-US', { timeZone: 'UTC' });
-      
-      // Calculate the offset between the timezone and UTC
-      const timezoneDate = new Date(timeInTimezone);
-      const utcDate = new Date(timeInUtc);
-      const offset = utcDate.getTime() - timezoneDate.getTime();
-      
-      // Apply the offset to get the correct UTC time
-      const correctedUtcTime = new Date(dateTime.getTime() + offset);
-      return correctedUtcTime.toISOString();
-    } catch (error) {
-      // Fallback to treating the input as already in UTC
-      console.warn(`Timezone conversion failed for ${timezone}, treating time as UTC:`, error);
-      return dateTime.toISOString();
-    }
+    return new Date(parseTime(time, timezone)).toISOString();
   }
 
   async fetchInsightResults(options: FetchInsightResultsOptions): Promise<{
@@ -587,39 +545,16 @@ export default class BruceHandler {
      *     - count: Number of results in current page
      *     - totalPages: Total number of available pages
      * 
-     * @throws Error if the user information cannot be retrieved or organization ID is missing
-     * @throws Error if the insight ID is not found or access is denied
-     * @throws Error if the API request fails after maximum retries
-     * @throws Error if the response format is invalid or unsuccessful
-     * @throws Error if the provided date format is invalid
+     * @throws IosenseError if the user information cannot be retrieved or organization ID is missing
+     * @throws ApiError if the insight ID is not found or access is denied
+     * @throws MaxRetriesExceededError if the API request fails after maximum retries
+     * @throws ApiError if the response format is invalid or unsuccessful
+     * @throws ValidationError if the provided date format is invalid
      */
-    const { insightId, filter, pagination = { page: 1, count: 50 }, onPrem } = options;
-
-    // First, get user information to obtain organization ID
-    const dataAccess = new DataAccess({
-      userId: this.userId,
-      dataUrl: this.dataUrl,
-      dsUrl: this.dataUrl,
-      onPrem: onPrem ?? this.onPrem,
-      tz: this.tz
-    });
+    const { insightId, filter, pagination = { page: 1, count: 50 }, onPrem, signal } = options;
 
-    let organisationId: string;
-    try {
-      const userInfo = await dataAccess.getUserInfo(onPrem);
-      if (!userInfo || typeof userInfo !== 'object' || !('organisation' in userInfo)) {
-        throw new Error('Failed to retrieve user organization information');
-      }
-      
-      const organisation = (userInfo as any).organisation;
-      if (!organisation || !organisation._id) {
-        throw new Error('Organization ID not found in user information');
-      }
-      
-      organisationId = organisation._id;
-    } catch (error: any) {
-      throw new Error(`Failed to get user organization: ${error.message}`);
-    }
+    // First, get the organization ID of the user
+    const organisationId = await this.getOrganisationId(onPrem, signal);
 
     // Convert filter dates from user's timezone to UTC and include tags
     let convertedFilter = filter;
@@ -651,38 +586,28 @@ export default class BruceHandler {
       pagination
     };
 
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
+    const headers = { 'Content-Type': 'application/json' };
 
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
-      try {
-        const response: AxiosResponse<FetchInsightResultsResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data) {
-          return {
-            results: response.data.data.data,
-            totalCount: response.data.data.totalCount,
-            pagination: response.data.data.pagination
-          };
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
-      } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch insight results after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
-      }
-    }
+    const response = await this.transport.put<FetchInsightResultsResponse>(url, payload, { headers, signal, coalesce: true });
 
-    throw new Error('Failed to fetch insight results: Maximum retries exceeded');
+    if (response.data.success && response.data.data) {
+      return {
+        results: response.data.data.data,
+        totalCount: response.data.data.totalCount,
+        pagination: response.data.data.pagination
+      };
+    }
+    throw new ApiError('Failed to fetch insight results: API returned unsuccessful response', {
+      url,
+      status: response.status,
+      body: response.data
+    });
   }
 }
+
+// Every public call gets its own span, and its requests are numbered as pages
+traceMethods(
+  BruceHandler,
+  ['fetchUserInsights', 'getSourceInsight', 'fetchInsightResults'],
+  instance => instance['transport'].tracer
+);
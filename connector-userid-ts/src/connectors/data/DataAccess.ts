@@ -1,4 +1,4 @@
-import axios, { AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
 import {
   GET_DEVICE_DETAILS_URL,
   GET_DEVICE_METADATA_URL,
@@ -6,11 +6,33 @@ import {
   GET_DP_URL,
   GET_FIRST_DP,
   INFLUXDB_URL,
+  GET_CURSOR_BATCHES_URL,
+  CONSUMPTION_URL,
+  CLUSTER_AGGREGATION,
+  GET_FILTERED_OPERATION_DATA,
+  TRIGGER_URL,
   GET_LOAD_ENTITIES,
-  MAX_RETRIES,
-  RETRY_DELAY,
-  Protocol
+  METADATA_CACHE_TTL,
+  BATCH_CONCURRENCY
 } from '../../utils/constants.js';
+import { BaseUrl, CaCertificates, HttpTransport, formatUrl, errorMessage, resolveBaseUrl } from '../../utils/transport.js';
+import {
+  ApiError,
+  DeviceNotFoundError,
+  InvalidTimeRangeError,
+  IosenseError,
+  ValidationError
+} from '../../utils/errors.js';
+import { Logger, resolveLogger } from '../../utils/logger.js';
+import { CacheStore, MemoryCacheStore } from '../../utils/cache.js';
+import { mapConcurrent } from '../../utils/concurrency.js';
+import { Period, PeriodBucket, ShiftDefinition, periodBuckets } from '../../utils/periods.js';
+import { ResampleOptions, createBucketer, resample as resampleRows } from '../../utils/resample.js';
+import { TimeFormat, formatTime, parseTime } from '../../utils/time.js';
+import { CalibrationFunction, CalibrationRegistry } from '../../utils/calibration.js';
+import { resolveSensorIds } from '../../utils/sensors.js';
+import { AuthProvider, createUserIdAuth } from '../../utils/auth.js';
+import { traceMethods } from '../../utils/telemetry.js';
 
 // Type definitions for the DataAccess class
 export interface DataAccessConfig {
@@ -18,7 +40,18 @@ export interface DataAccessConfig {
   dataUrl: string;
   dsUrl: string;
   onPrem?: boolean;
+  baseUrl?: BaseUrl;
   tz?: string;
+  transport?: HttpTransport;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  auth?: AuthProvider;
+  legacyErrors?: boolean;
+  logger?: Logger;
+  cacheTtlMs?: number;
+  cacheStore?: CacheStore;
+  validateDevices?: boolean;
+  calibration?: CalibrationRegistry;
 }
 
 export interface ApiResponse<T = any> {
@@ -126,7 +159,10 @@ export interface GetFirstDpOptions {
   n?: number;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
   onPrem?: boolean | null;
+  signal?: AbortSignal;
 }
 
 export interface GetDpOptions {
@@ -137,7 +173,10 @@ export interface GetDpOptions {
   endTime?: string | number | Date | null;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
   onPrem?: boolean | null;
+  signal?: AbortSignal;
 }
 
 export interface CleanedTableOptions {
@@ -148,8 +187,11 @@ export interface CleanedTableOptions {
   sensorList?: string[];
   onPrem?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
   metadata?: DeviceMetadata | null;
   pivotTable?: boolean;
+  resample?: ResampleOptions | null;
 }
 
 export interface DataQueryOptions {
@@ -160,7 +202,13 @@ export interface DataQueryOptions {
   cal?: boolean;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
   onPrem?: boolean | null;
+  signal?: AbortSignal;
+  parallel?: boolean;
+  concurrency?: number;
+  resample?: ResampleOptions | null;
 }
 
 export interface InfluxDbOptions {
@@ -170,9 +218,39 @@ export interface InfluxDbOptions {
   alias?: boolean;
   cal?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
   sensorList?: string[];
   metadata?: DeviceMetadata | null;
   onPrem?: boolean | null;
+  signal?: AbortSignal;
+  parallel?: boolean;
+  concurrency?: number;
+  resample?: ResampleOptions | null;
+}
+
+export interface DeviceQuery {
+  deviceId: string;
+  sensors?: string[] | null;
+}
+
+export type MultiDeviceFormat = 'long' | 'wide';
+
+export interface MultiDeviceQueryOptions {
+  devices: DeviceQuery[];
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  format?: MultiDeviceFormat;
+  resample?: ResampleOptions | null;
+  separator?: string;
+  cal?: boolean;
+  alias?: boolean;
+  unix?: boolean;
+  timeFormat?: TimeFormat;
+  rawValues?: boolean;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+  concurrency?: number;
 }
 
 export interface CursorData {
@@ -183,6 +261,7 @@ export interface CursorData {
 export interface GetLoadEntitiesOptions {
   onPrem?: boolean | null;
   clusters?: string[] | null;
+  signal?: AbortSignal;
 }
 
 export interface LoadEntity {
@@ -199,13 +278,136 @@ export interface LoadEntitiesResponse {
   error?: boolean;
 }
 
+export interface GetConsumptionOptions {
+  deviceId: string;
+  sensorList?: string[] | null;
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  period?: Period | null;
+  cycleStart?: string;
+  shifts?: ShiftDefinition[];
+  cal?: boolean;
+  alias?: boolean;
+  unix?: boolean;
+  timeFormat?: TimeFormat;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+  concurrency?: number;
+}
+
+export interface ConsumptionRow {
+  time: string | number;
+  endTime: string | number;
+  shift?: string;
+  sensor: string;
+  startValue: number | null;
+  endValue: number | null;
+  consumption: number | null;
+  reset: boolean;
+}
+
+export type ClusterOperator = 'sum' | 'mean' | 'min' | 'max';
+
+export type ClusterPeriodicity = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface GetClusterDataOptions {
+  cluster: string;
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  operator?: ClusterOperator;
+  periodicity?: ClusterPeriodicity | null;
+  cycleTime?: string;
+  dataPrecision?: number;
+  unix?: boolean;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+}
+
+export interface ClusterDataRow {
+  time: string | number;
+  cluster: string;
+  value: number | null;
+}
+
+export type OperationDataOperator = 'sum' | 'mean' | 'median' | 'mode' | 'min' | 'max' | 'count';
+
+export interface OperationDataFilter {
+  sensor: string;
+  operator: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  value: number;
+}
+
+export interface OperationDataShift {
+  name: string;
+  start: string;
+  end: string;
+}
+
+export interface GetFilteredOperationDataOptions {
+  deviceId: string;
+  sensorList?: string[] | null;
+  operator?: OperationDataOperator;
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  periodicity?: ClusterPeriodicity | null;
+  cycleTime?: string;
+  weekStart?: number;
+  monthStart?: number;
+  yearStart?: number;
+  shifts?: OperationDataShift[];
+  shiftOperator?: OperationDataOperator;
+  filter?: OperationDataFilter[];
+  dataPrecision?: number;
+  alias?: boolean;
+  unix?: boolean;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+}
+
+export interface OperationDataRow {
+  time: string | number;
+  sensor: string;
+  value: number | null;
+}
+
+export interface UserTriggerRun {
+  runId?: string;
+  title?: string;
+  status: string;
+  result?: any;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  response: any;
+}
+
+export interface FireUserTriggerOptions {
+  title: string;
+  payload?: Record<string, any>;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+}
+
+interface StartEndValues {
+  start: number | null;
+  end: number | null;
+}
+
 
 export default class DataAccess {
   private userId: string;
   private dataUrl: string;
   private dsUrl: string;
   private onPrem: boolean;
+  private baseUrl?: string;
   private tz: string;
+  private transport: HttpTransport;
+  private legacyErrors: boolean;
+  private logger: Logger;
+  private cacheTtlMs: number;
+  private cache: CacheStore;
+  private validateDevices: boolean;
+  private calibration: CalibrationRegistry;
 
   /**
    * Class constructor for DataAccess.
@@ -214,86 +416,205 @@ export default class DataAccess {
    * @param options.dataUrl - The data URL for the API.
    * @param options.dsUrl - The DS URL for the API.
    * @param options.onPrem - Whether the API is on-premises or Live. Defaults to false.
+   * @param options.baseUrl - Full base URL of the API (protocol, host, port and path prefix), e.g. "https://iosense.plant.local:8443/iosense". Overrides dataUrl and onPrem.
    * @param options.tz - Timezone to use. Defaults to "UTC".
+   * @param options.transport - Shared HTTP transport. Defaults to a new HttpTransport with default settings.
+   * @param options.proxy - HTTP(S) proxy URL for the default transport, or false to ignore the HTTP(S)_PROXY variables.
+   * @param options.ca - Extra trusted CA certificates (PEM) for the default transport.
+   * @param options.auth - Credentials sent with every request. Defaults to the `userID` header.
+   * @param options.legacyErrors - Log failures and return empty results instead of throwing. Defaults to false.
+   * @param options.logger - Receives diagnostic output (progress, response times, failures). Defaults to a silent logger.
+   * @param options.cacheTtlMs - How long device details and metadata are cached, in milliseconds. 0 disables caching. Defaults to 5 minutes.
+   * @param options.cacheStore - Where cached values are kept. Defaults to an in-memory store owned by this instance.
+   * @param options.validateDevices - Check that the device belongs to the account before querying data. Defaults to true.
+   * @param options.calibration - Resolves per-sensor calibration from metadata params, with custom types and functions. Defaults to the built-in linear, polynomial and lookup types.
    */
   constructor({
     userId,
     dataUrl,
     dsUrl,
     onPrem = false,
-    tz = "UTC"
+    baseUrl,
+    tz = "UTC",
+    transport,
+    proxy,
+    ca,
+    auth = createUserIdAuth(userId),
+    legacyErrors = false,
+    logger,
+    cacheTtlMs = METADATA_CACHE_TTL,
+    cacheStore = new MemoryCacheStore(),
+    validateDevices = true,
+    calibration = new CalibrationRegistry()
   }: DataAccessConfig) {
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.dsUrl = dsUrl;
     this.onPrem = onPrem;
+    this.baseUrl = baseUrl === undefined ? undefined : resolveBaseUrl(baseUrl);
     this.tz = tz;
+    this.logger = resolveLogger(logger);
+    this.transport = (transport ?? new HttpTransport({ logger: this.logger, proxy, ca })).withAuth(auth);
+    this.legacyErrors = legacyErrors;
+    this.cacheTtlMs = cacheTtlMs;
+    this.cache = cacheStore;
+    this.validateDevices = validateDevices;
+    this.calibration = calibration;
   }
 
   /**
-   * Helper function to format error messages
-   * @param response - The axios response object
-   * @param url - The URL that was requested
-   * @returns Formatted error message
+   * Rethrows an error from a public method, or returns the method's empty
+   * result when legacy error mode is enabled.
+   * @param error - The caught error
+   * @param fallback - Value returned in legacy error mode
+   * @returns The fallback value in legacy error mode
    */
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) return `URL: ${url}`;
-    return `Status: ${response?.status || 'unknown'}, URL: ${url}`;
+  private fail<T>(error: unknown, fallback: T): T {
+    if (this.legacyErrors) return fallback;
+    throw error;
   }
 
   /**
-   * Convert a given time to Unix timestamp in milliseconds.
-   * @param time - The time to be converted. It can be a string in ISO 8601 format, a Unix timestamp in milliseconds, or a Date object. If null or undefined, the current time is used.
-   * @param timezone - The timezone to use (e.g., 'America/New_York', 'UTC'). This is used when time is not provided or doesn't have timezone info.
-   * @returns The Unix timestamp in milliseconds.
-   * @throws Error if the provided Unix timestamp is not in milliseconds or if there are mismatched offset times.
+   * Ensures a device belongs to the user's account.
+   * @param deviceId - The device to look up
+   * @param onPrem - Override for the instance onPrem flag
+   * @param signal - Optional AbortSignal to cancel the request
+   * @throws DeviceNotFoundError if the device is not in the account
    */
-  private timeToUnix(time: string | number | Date | null = null, timezone: string = "UTC"): number {
-    // If time is not provided, use the current time in the specified timezone
-    if (time === null || time === undefined) {
-      // Create a date in the current timezone
-      const now = new Date();
-      return now.getTime();
+  private async validateDevice(deviceId: string, onPrem: boolean, signal?: AbortSignal): Promise<void> {
+    if (!this.validateDevices) return;
+
+    const devices = await this.getDeviceDetails(onPrem, signal);
+    if (!Array.isArray(devices)) {
+      throw new IosenseError("Failed to fetch device details");
     }
+    if (!devices.some(d => d.devID === deviceId)) {
+      throw new DeviceNotFoundError(deviceId);
+    }
+  }
 
-    // If time is already in Unix timestamp format (number)
-    if (typeof time === "number") {
-      // Validate that it's in milliseconds (>10 digits)
-      if (time <= 0 || String(time).length <= 10) {
-        throw new Error(
-          "Unix timestamp must be a positive integer in milliseconds, not seconds."
-        );
-      }
-      return time;
+  /**
+   * Prefix of every cache key written by this instance. Keys include the user
+   * and the resolved base URL (or host) so one store can be shared between
+   * instances.
+   */
+  private get cachePrefix(): string {
+    return `dataAccess:${this.userId}@${this.baseUrl ?? this.dataUrl}:`;
+  }
+
+  /**
+   * Fetches a device's metadata and resolves the requested sensors, given as
+   * IDs or names, to sensor IDs.
+   * @param deviceId - The device the sensors belong to
+   * @param sensorList - Sensor IDs and/or names. If null or empty, all sensors of the device
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The metadata and the resolved sensor IDs
+   */
+  private async resolveSensors(
+    deviceId: string,
+    sensorList: string[] | null | undefined,
+    onPrem: boolean,
+    signal?: AbortSignal
+  ): Promise<{ metadata: DeviceMetadata; sensorList: string[] }> {
+    const metadataResult = await this.getDeviceMetaData(deviceId, onPrem, signal);
+    if (!metadataResult || typeof metadataResult !== 'object' || !('sensors' in metadataResult)) {
+      throw new IosenseError("Failed to fetch device metadata");
     }
+    const metadata = metadataResult as DeviceMetadata;
+    const sensors = metadata.sensors || [];
 
-    // If time is in string format, convert it to a Date object
-    let dateObj: Date;
-    if (typeof time === "string") {
-      // Parse the string into a Date object
-      dateObj = new Date(time);
+    if (sensorList && sensorList.length > 0) {
+      return { metadata, sensorList: resolveSensorIds(sensorList, sensors, deviceId) };
+    }
+    if (sensors.length === 0) throw new IosenseError("No sensors available.");
+    return { metadata, sensorList: sensors.map(s => s.sensorId) };
+  }
 
-      // Check if the date is valid
-      if (isNaN(dateObj.getTime())) {
-        throw new Error(`Invalid date string: ${time}`);
-      }
-    } else if (time instanceof Date) {
-      dateObj = time;
+  /**
+   * Returns a cached value, or loads and caches it. Failed loads are not cached.
+   * @param key - Cache key, relative to the instance prefix
+   * @param load - Fetches the value on a cache miss
+   * @returns The cached or freshly loaded value
+   */
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.cacheTtlMs <= 0) return load();
+
+    const fullKey = this.cachePrefix + key;
+    const hit = await this.cache.get<T>(fullKey);
+    if (hit !== undefined) {
+      this.logger.debug('Cache hit', { key: fullKey });
+      return hit;
+    }
+
+    const value = await load();
+    await this.cache.set(fullKey, value, this.cacheTtlMs);
+    return value;
+  }
+
+  /**
+   * Drops cached device details and metadata.
+   * @param deviceId - Only drop the metadata of this device. If omitted, everything cached by this instance is dropped.
+   *
+   * @example
+   * ```typescript
+   * // A sensor was added to the device; make the next query see it
+   * await dataAccess.invalidateCache('DEVICE_001');
+   * ```
+   */
+  async invalidateCache(deviceId?: string): Promise<void> {
+    const prefix = deviceId === undefined
+      ? this.cachePrefix
+      : `${this.cachePrefix}metadata:${deviceId}|`;
+    await this.cache.clear(prefix);
+  }
+
+  /**
+   * Re-fetches cached values from the API, replacing what is cached.
+   * @param deviceId - Refresh the metadata of this device. If omitted, the whole cache is dropped and the device list is re-fetched.
+   * @param onPremOverride - Whether to override the onPrem flag.
+   * @param signal - Optional AbortSignal to cancel the request.
+   */
+  async refreshCache(deviceId?: string, onPremOverride: boolean | null = null, signal?: AbortSignal): Promise<void> {
+    await this.invalidateCache(deviceId);
+    if (deviceId === undefined) {
+      await this.getDeviceDetails(onPremOverride, signal);
     } else {
-      throw new Error("Time must be a string, number, Date object, or null");
+      await this.getDeviceMetaData(deviceId, onPremOverride, signal);
     }
+  }
 
-    // Return the Unix timestamp in milliseconds
-    return dateObj.getTime();
+  /**
+   * Builds an endpoint URL on the base URL, or on dataUrl with http or https
+   * chosen by the onPrem flag.
+   * @param template - Endpoint template from constants.ts
+   * @param onPrem - Override for the instance onPrem flag; ignored with a base URL
+   * @returns The formatted URL
+   */
+  private formatUrl(template: string, onPrem: boolean | null = null): string {
+    return formatUrl(template, this.dataUrl, onPrem ?? this.onPrem, this.baseUrl);
   }
 
   /**
-   * Sleep for a specified number of milliseconds
-   * @param ms - Number of milliseconds to sleep
-   * @returns Promise that resolves after the specified time
+   * Convert a given time to Unix timestamp in milliseconds.
+   * @param time - The time to be converted. It can be a string in ISO 8601 format, a naive "YYYY-MM-DD HH:mm:ss" string, a Unix timestamp in milliseconds, or a Date object. If null or undefined, the current time is used.
+   * @param timezone - The timezone naive strings are read in (e.g., 'America/New_York', 'UTC'). Defaults to the instance timezone.
+   * @returns The Unix timestamp in milliseconds.
+   * @throws ValidationError if the provided Unix timestamp is not in milliseconds or if the string cannot be parsed.
    */
-  private _sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private timeToUnix(time: string | number | Date | null = null, timezone: string = this.tz): number {
+    // If time is already in Unix timestamp format (number)
+    if (typeof time === "number") {
+      // Validate that it's in milliseconds (>10 digits)
+      if (time <= 0 || String(time).length <= 10) {
+        throw new ValidationError(
+          "Unix timestamp must be a positive integer in milliseconds, not seconds."
+        );
+      }
+      return time;
+    }
+
+    return parseTime(time, timezone);
   }
 
   /**
@@ -334,10 +655,24 @@ export default class DataAccess {
       sensorList,
       onPrem = false,
       unix = false,
+      timeFormat,
+      rawValues = false,
       metadata = null,
       pivotTable = true,
+      resample = null,
     } = options;
 
+    const format = timeFormat ?? (unix ? 'unix' : null);
+    const formatRowTime = (row: any): any => {
+      // Convert the timestamp (assuming row.timestamp or row.time exists)
+      if (row.timestamp) {
+        row.timestamp = formatTime(this.timeToUnix(row.timestamp), format!, this.tz);
+      } else if (row.time) {
+        row.time = formatTime(this.timeToUnix(row.time), format!, this.tz);
+      }
+      return row;
+    };
+
     // Create a deep copy of the input data to avoid modifying the original
     let cleanedData: any[] = JSON.parse(JSON.stringify(data));
 
@@ -356,76 +691,51 @@ export default class DataAccess {
       cleanedData = cleanedData.filter((row: any) => row.deviceId === deviceId);
     }
 
+    // Keep the raw values next to the calibrated ones if requested
+    if (rawValues) {
+      cleanedData.forEach((row) => {
+        if (row.sensor) row.raw = row.value;
+      });
+    }
+
     // 3. Apply calibration if requested
-    if (cal && metadata) {
+    if (cal) {
+      // Resolve each sensor's calibration once from its metadata params
+      const calibrators = new Map<string, CalibrationFunction | null>();
       cleanedData = cleanedData.map((row) => {
-        // Apply calibration formula using metadata parameters
-        if (row.sensor && metadata.params && metadata.params[row.sensor]) {
-          const sensorParams = metadata.params[row.sensor];
-          
-          // Extract calibration parameters
-          let m = 1; // slope (default to 1)
-          let c = 0; // intercept (default to 0)
-          let min: number | null = null;
-          let max: number | null = null;
-
-          // Find the calibration parameters
-          for (const param of sensorParams) {
-            if (param.paramName === 'm') {
-              m = parseFloat(param.paramValue) || 1;
-            } else if (param.paramName === 'c') {
-              c = parseFloat(param.paramValue) || 0;
-            } else if (param.paramName === 'min') {
-              min = parseFloat(param.paramValue);
-            } else if (param.paramName === 'max') {
-              max = parseFloat(param.paramValue);
-            }
-          }
+        if (!row.sensor) return row;
 
-          // Apply calibration formula: calibrated_value = m * raw_value + c
-          if (row.value !== null && row.value !== undefined) {
-            const rawValue = parseFloat(row.value);
-            if (!isNaN(rawValue)) {
-              let calibratedValue = m * rawValue + c;
-              
-              // Apply min/max constraints if specified
-              if (min !== null && !isNaN(min)) {
-                calibratedValue = Math.max(calibratedValue, min);
-              }
-              if (max !== null && !isNaN(max)) {
-                calibratedValue = Math.min(calibratedValue, max);
-              }
-              
-              row.value = calibratedValue;
-            }
+        if (!calibrators.has(row.sensor)) {
+          calibrators.set(row.sensor, this.calibration.resolve(row.sensor, metadata?.params?.[row.sensor]));
+        }
+        const calibrate = calibrators.get(row.sensor);
+
+        if (calibrate && row.value !== null && row.value !== undefined) {
+          const rawValue = parseFloat(row.value);
+          if (!isNaN(rawValue)) {
+            row.value = calibrate(rawValue);
           }
         }
         return row;
       });
     }
 
-    // 4. Process timestamps if unix format is requested
-    if (unix) {
-      cleanedData = cleanedData.map((row) => {
-        // Convert timestamp to Unix format (assuming row.timestamp or row.time exists)
-        if (row.timestamp) {
-          row.timestamp = this.timeToUnix(row.timestamp);
-        } else if (row.time) {
-          row.time = this.timeToUnix(row.time);
-        }
-        return row;
+    // 4. Process timestamps if a time format is requested; resampled rows
+    // are formatted once they have been aggregated
+    if (format && !(resample && pivotTable)) {
+      cleanedData = cleanedData.map(formatRowTime);
+    }
+
+    // Create alias mapping from sensor metadata (sensorId -> sensorName)
+    const aliasMap: Record<string, string> = {};
+    if (alias && metadata?.sensors) {
+      metadata.sensors.forEach(sensor => {
+        aliasMap[sensor.sensorId] = sensor.sensorName;
       });
     }
 
     // 5. Apply aliases if requested
     if (alias && metadata) {
-      // Create alias mapping from sensor metadata (sensorId -> sensorName)
-      const aliasMap: Record<string, string> = {};
-      if (metadata.sensors) {
-        metadata.sensors.forEach(sensor => {
-          aliasMap[sensor.sensorId] = sensor.sensorName;
-        });
-      }
 
       // Replace sensor IDs with their human-readable names
       cleanedData = cleanedData.map((row) => {
@@ -467,11 +777,27 @@ export default class DataAccess {
           if (row.sensor && row.value !== undefined) {
             pivotedRow[row.sensor] = row.value;
           }
+          if (row.sensor && row.raw !== undefined) {
+            pivotedRow[`${row.sensor}_raw`] = row.raw;
+          }
         });
 
         pivotedData.push(pivotedRow);
       });
 
+      // 7. Resample the calibrated rows if requested
+      if (resample) {
+        // Per-sensor functions may be keyed by sensor ID; columns carry aliases by now
+        let agg = resample.agg;
+        if (agg && typeof agg === 'object') {
+          agg = Object.fromEntries(
+            Object.entries(agg).map(([sensor, fn]) => [aliasMap[sensor] ?? sensor, fn])
+          );
+        }
+        const resampled = resampleRows(pivotedData, { ...resample, agg, tz: resample.tz ?? this.tz });
+        return format ? resampled.map(formatRowTime) : resampled;
+      }
+
       return pivotedData;
     }
 
@@ -481,6 +807,7 @@ export default class DataAccess {
   /**
    * Fetches user info from the API using axios.
    * @param onPremOverride - Whether to   override the onPrem flag.
+   * @param signal - Optional AbortSignal to cancel the request.
    * @returns User info object with the following structure:
    * ```typescript
    * {
@@ -560,57 +887,40 @@ export default class DataAccess {
    * // }
    * ```
    * 
-   * @throws Error if an error occurs during the HTTP request, such as a network issue or timeout.
-   * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
+   * @throws ApiError if the request fails or the response does not contain data.
+   * @throws MaxRetriesExceededError if a network issue or timeout persists after all retries.
    */
-  async getUserInfo(onPremOverride: boolean | null = null): Promise<UserInfo | {}> {
-    // Based on On Prem We will use either http or https protocol
-    const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
+  async getUserInfo(onPremOverride: boolean | null = null, signal?: AbortSignal): Promise<UserInfo | {}> {
     // Construct the URL for the API request
-    const url = GET_USER_INFO_URL.replace("{protocol}", protocol).replace(
-      "{data_url}",
-      this.dataUrl
-    );
+    const url = this.formatUrl(GET_USER_INFO_URL, onPremOverride);
 
     try {
-      const response: AxiosResponse<ApiResponse<UserInfo>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
+      const response: AxiosResponse<ApiResponse<UserInfo>> = await this.transport.get(url, {
+        signal,
       });
 
       // Check if the response contains the expected data
       if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
+        throw new ApiError('Missing "data" in response', {
+          url,
+          status: response.status,
+          body: response.data,
+        });
       }
 
       // Return the user info from the response
       return response.data.data;
     } catch (error: any) {
-      // Handle errors that occur during the API request
-      const status = error.response?.status;
-      const statusText = error.response?.statusText;
-      const server = error.response?.headers?.server || "Unknown Server";
-      const body = error.response?.data || error.message;
-
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}: 
-        [STATUS CODE] ${status}
-        [URL] ${url}
-        [SERVER INFO] ${server}
-        [RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
-      return {};
+      this.logger.error('getUserInfo failed', { url, status: error.status, error });
+      return this.fail(error, {});
     }
   }
 
   /**
    * Fetches device details from the API using axios.
+   * Results are cached for `cacheTtlMs`; see {@link DataAccess.invalidateCache}.
    * @param onPremOverride - Whether to override the onPrem flag.
+   * @param signal - Optional AbortSignal to cancel the request.
    * @returns Array of device details with the following structure:
    * ```typescript
    * Array<{
@@ -647,58 +957,44 @@ export default class DataAccess {
    * ```
 
    * 
-   * @throws Error if an error occurs during the HTTP request, such as a network issue or timeout.
-   * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
+   * @throws ApiError if the request fails or the response does not contain data.
+   * @throws MaxRetriesExceededError if a network issue or timeout persists after all retries.
    */
-  async getDeviceDetails(onPremOverride: boolean | null = null): Promise<DeviceDetail[] | {}> {
-    // Based on On Prem We will use either http or https protocol
-    const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
+  async getDeviceDetails(onPremOverride: boolean | null = null, signal?: AbortSignal): Promise<DeviceDetail[] | {}> {
     // Construct the URL for the API request
-    const url = GET_DEVICE_DETAILS_URL.replace("{protocol}", protocol).replace(
-      "{data_url}",
-      this.dataUrl
-    );
+    const url = this.formatUrl(GET_DEVICE_DETAILS_URL, onPremOverride);
+    const cacheKey = `devices|${onPremOverride ?? this.onPrem}`;
 
     try {
-      const response: AxiosResponse<ApiResponse<DeviceDetail[]>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
-      });
+      return await this.cached(cacheKey, async () => {
+        const response: AxiosResponse<ApiResponse<DeviceDetail[]>> = await this.transport.get(url, {
+          signal,
+        });
 
-      // Check if the response contains the expected data
-      if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
-      }
+        // Check if the response contains the expected data
+        if (!response.data || !response.data.data) {
+          throw new ApiError('Missing "data" in response', {
+            url,
+            status: response.status,
+            body: response.data,
+          });
+        }
 
-      // Return the device details from the response
-      return response.data.data;
+        // Return the device details from the response
+        return response.data.data;
+      });
     } catch (error: any) {
-      // Handle errors that occur during the API request
-      const status = error.response?.status;
-      const statusText = error.response?.statusText;
-      const server = error.response?.headers?.server || "Unknown Server";
-      const body = error.response?.data || error.message;
-
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}:
-        [STATUS CODE] ${status}
-        [URL] ${url}
-        [SERVER INFO] ${server}
-        [RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
-      return {};
+      this.logger.error('getDeviceDetails failed', { url, status: error.status, error });
+      return this.fail(error, {});
     }
   }
 
   /**
    * Fetches device metadata from the API using axios.
+   * Results are cached for `cacheTtlMs`; see {@link DataAccess.invalidateCache}.
    * @param deviceID - The ID of the device to fetch metadata for.
    * @param onPremOverride - Whether to override the onPrem flag.
+   * @param signal - Optional AbortSignal to cancel the request.
    * @returns Device metadata object with the following structure:
    * ```typescript
    * {
@@ -737,50 +1033,36 @@ export default class DataAccess {
 
    * ```
    * 
-   * @throws Error if an error occurs during the HTTP request, such as a network issue or timeout.
-   * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
+   * @throws ApiError if the request fails or the response does not contain data.
+   * @throws MaxRetriesExceededError if a network issue or timeout persists after all retries.
    */
-  async getDeviceMetaData(deviceID: string, onPremOverride: boolean | null = null): Promise<DeviceMetadata | {}> {
-    // Based on On Prem We will use either http or https protocol
-    const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
+  async getDeviceMetaData(deviceID: string, onPremOverride: boolean | null = null, signal?: AbortSignal): Promise<DeviceMetadata | {}> {
     // Construct the URL for the API request
-    const url = GET_DEVICE_METADATA_URL.replace("{protocol}", protocol)
-      .replace("{data_url}", this.dataUrl)
+    const url = this.formatUrl(GET_DEVICE_METADATA_URL, onPremOverride)
       .replace("{device_id}", deviceID);
+    const cacheKey = `metadata:${deviceID}|${onPremOverride ?? this.onPrem}`;
 
     try {
-      const response: AxiosResponse<ApiResponse<DeviceMetadata>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
-      });
+      return await this.cached(cacheKey, async () => {
+        const response: AxiosResponse<ApiResponse<DeviceMetadata>> = await this.transport.get(url, {
+          signal,
+        });
 
-      // Check if the response contains the expected data
-      if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
-      }
+        // Check if the response contains the expected data
+        if (!response.data || !response.data.data) {
+          throw new ApiError('Missing "data" in response', {
+            url,
+            status: response.status,
+            body: response.data,
+          });
+        }
 
-      // Return the device metadata from the response
-      return response.data.data;
+        // Return the device metadata from the response
+        return response.data.data;
+      });
     } catch (error: any) {
-      // Handle errors that occur during the API request
-      const status = error.response?.status;
-      const statusText = error.response?.statusText;
-      const server = error.response?.headers?.server || "Unknown Server";
-      const body = error.response?.data || error.message;
-
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}:
-[STATUS CODE] ${status}
-[URL] ${url}
-[SERVER INFO] ${server}
-[RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
-      return {};
+      this.logger.error('getDeviceMetaData failed', { url, status: error.status, error });
+      return this.fail(error, {});
     }
   }
 
@@ -788,13 +1070,16 @@ export default class DataAccess {
    * Retrieves the first datapoint(s) for specified sensors on a device starting from a given time.
    * @param options - Configuration options
    * @param options.deviceId - The ID of the device to fetch data from
-   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
+   * @param options.sensorList - List of sensor IDs or names (from the device metadata). If null, fetches data for all sensors
    * @param options.cal - Whether to apply calibration to sensor values
    * @param options.startTime - The time from which to start fetching data (Unix timestamp in milliseconds)
    * @param options.n - Number of datapoints to fetch (must be ≥ 1)
    * @param options.alias - Whether to use sensor aliases instead of IDs
    * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Output timestamps as 'iso' (ISO 8601 with the instance timezone offset), 'unix' (milliseconds) or 'local' ("YYYY-MM-DD HH:mm:ss" in the instance timezone). Overrides unix
+   * @param options.rawValues - Also return each uncalibrated value, as `raw` on long rows or a `<sensor>_raw` column on pivoted rows
    * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
    * @returns Array of datapoints with time and sensor values. Each datapoint has the following structure:
    * ```typescript
    * {
@@ -839,10 +1124,12 @@ export default class DataAccess {
    * // ]
    * ```
    * 
-   * @throws Error if parameter 'n' is less than 1
-   * @throws Error if the specified device is not found in the account
-   * @throws Error if no sensor data is available for the device
-   * @throws Error if the API request fails or returns an error response
+   * @throws ValidationError if parameter 'n' is less than 1
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for the device
+   * @throws ApiError if the API request fails or returns an error response
+   * @throws MaxRetriesExceededError if the API stays unreachable after all retries
    */
   async getFirstDp(options: GetFirstDpOptions): Promise<any[]> {
     const {
@@ -853,53 +1140,40 @@ export default class DataAccess {
       n = 1,
       alias = false,
       unix = false,
+      timeFormat,
+      rawValues = false,
       onPrem = null,
+      signal,
     } = options;
 
     try {
-      if (n < 1) throw new Error("Parameter 'n' must be ≥ 1");
+      if (n < 1) throw new ValidationError("Parameter 'n' must be ≥ 1");
 
       const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = GET_FIRST_DP.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
+      const url = this.formatUrl(GET_FIRST_DP, useOnPrem);
 
       // Verify device
-      const devices = await this.getDeviceDetails(useOnPrem);
-      if (Array.isArray(devices)) {
-        const deviceIds = devices.map(d => d.devID);
-        if (!deviceIds.includes(deviceId)) {
-          throw new Error(`Device ${deviceId} not added in account`);
-        }
-      } else {
-        throw new Error("Failed to fetch device details");
-      }
+      await this.validateDevice(deviceId, useOnPrem, signal);
 
       // Get sensor list
-      let metadata: DeviceMetadata | null = null;
-      let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
-          metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensor data available.");
-        } else {
-          throw new Error("Failed to fetch device metadata");
-        }
-      }
+      const { metadata, sensorList: finalSensorList } = await this.resolveSensors(deviceId, sensorList, useOnPrem, signal);
 
       const unixStart = Math.floor(this.timeToUnix(startTime) / 1000);
       const params = {
         device: deviceId,
-        sensor: finalSensorList!.join(','),
+        sensor: finalSensorList.join(','),
         time: unixStart,
       };
 
-      const response: AxiosResponse = await axios.get(url, { params });
+      const response: AxiosResponse = await this.transport.get(url, { params, signal });
 
       const responseData = response.data;
       if (responseData.success) {
-        throw new Error(this.errorMessage(response, url));
+        throw new ApiError(`Unexpected response from ${url}`, {
+          url,
+          status: response.status,
+          body: responseData,
+        });
       }
 
       const formattedData = this.formatSensorData(responseData[0]);
@@ -909,17 +1183,19 @@ export default class DataAccess {
           alias,
           cal,
           deviceId: false,
-          sensorList: finalSensorList!,
+          sensorList: finalSensorList,
           onPrem: useOnPrem,
           unix,
+          timeFormat,
+          rawValues,
           metadata,
           pivotTable: false
         })
         : [];
 
     } catch (err: any) {
-      console.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
-      return [];
+      this.logger.error('getFirstDp failed', { deviceId, error: err });
+      return this.fail(err, []);
     }
   }
 
@@ -927,13 +1203,16 @@ export default class DataAccess {
    * Retrieves datapoint(s) for specified sensors on a device up until a given end time.
    * @param options - Configuration options
    * @param options.deviceId - The ID of the device to fetch data from
-   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
+   * @param options.sensorList - List of sensor IDs or names (from the device metadata). If null, fetches data for all sensors
    * @param options.n - Number of datapoints to fetch
    * @param options.cal - Whether to apply calibration to sensor values
    * @param options.endTime - The time up until which to fetch data
    * @param options.alias - Whether to use sensor aliases instead of IDs
    * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Output timestamps as 'iso' (ISO 8601 with the instance timezone offset), 'unix' (milliseconds) or 'local' ("YYYY-MM-DD HH:mm:ss" in the instance timezone). Overrides unix
+   * @param options.rawValues - Also return each uncalibrated value, as `raw` on long rows or a `<sensor>_raw` column on pivoted rows
    * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
    * @returns Array of datapoints with time and sensor values. Each datapoint has the following structure:
    * ```typescript
    * {
@@ -978,12 +1257,52 @@ export default class DataAccess {
    * // ]
    * ```
    * 
-   * @throws Error if parameter 'n' is less than 1
-   * @throws Error if the specified device is not found in the account
-   * @throws Error if no sensor data is available for the device
-   * @throws Error if the API request fails or returns an error response
+   * @throws ValidationError if parameter 'n' is less than 1
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for the device
+   * @throws ApiError if the API request fails or returns an error response
+   * @throws MaxRetriesExceededError if the API stays unreachable after all retries
    */
   async getDp(options: GetDpOptions): Promise<any[]> {
+    try {
+      const rows: any[] = [];
+      for await (const batch of this.getDpStream(options)) {
+        rows.push(...batch);
+      }
+      return rows;
+
+    } catch (err: any) {
+      this.logger.error('getDp failed', { deviceId: options.deviceId, error: err });
+      return this.fail(err, []);
+    }
+  }
+
+  /**
+   * Streaming variant of {@link DataAccess.getDp}. Each cursor page is cleaned
+   * (calibration, alias, unix) as soon as it arrives and yielded as one batch,
+   * so large `n` values do not have to be held in memory. The next page is only
+   * requested once the previous batch has been consumed.
+   * @param options - Same options as getDp
+   * @returns Async iterable of row batches, in the same row format as getDp
+   *
+   * @example
+   * ```typescript
+   * for await (const batch of dataAccess.getDpStream({ deviceId: 'DEVICE_001', n: 100000 })) {
+   *   await writer.write(batch);
+   * }
+   * ```
+   *
+   * @throws ValidationError if parameter 'n' is less than 1
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for the device
+   * @throws ApiError if the API request fails or returns an error response
+   * @throws MaxRetriesExceededError if the API stays unreachable after all retries
+   *
+   * Errors are always thrown from the iterator, also in legacy error mode.
+   */
+  async *getDpStream(options: GetDpOptions): AsyncGenerator<any[], void, undefined> {
     const {
       deviceId,
       sensorList = null,
@@ -992,109 +1311,69 @@ export default class DataAccess {
       endTime = null,
       alias = false,
       unix = false,
+      timeFormat,
+      rawValues = false,
       onPrem = null,
+      signal,
     } = options;
 
-    try {
-      if (n < 1) throw new Error("Parameter 'n' must be ≥ 1");
+    if (n < 1) throw new ValidationError("Parameter 'n' must be ≥ 1");
 
-      const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = GET_DP_URL.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
-
-      // Validate device
-      const devices = await this.getDeviceDetails(useOnPrem);
-      if (Array.isArray(devices)) {
-        if (!devices.some(d => d.devID === deviceId)) {
-          throw new Error(`Device ${deviceId} not added in account`);
-        }
-      } else {
-        throw new Error("Failed to fetch device details");
-      }
+    const useOnPrem = onPrem ?? this.onPrem;
+    const url = this.formatUrl(GET_DP_URL, useOnPrem);
 
-      // Get sensor list and metadata
-      let metadata: DeviceMetadata | null = null;
-      let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-        console.log('metadataResult', metadataResult);
-        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
-          metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensor data available.");
-        } else {
-          throw new Error("Failed to fetch device metadata");
-        }
-      }
+    // Validate device
+    await this.validateDevice(deviceId, useOnPrem, signal);
 
-      const unixEnd = Math.floor(this.timeToUnix(endTime) / 1000);
-      let allData: any[] = [];
-
-      // Process each sensor individually with cursor-based pagination
-      for (const sensor of finalSensorList!) {
-        let cursor: CursorInfo = { end: unixEnd, limit: n };
-        let retry = 0;
-
-        while (cursor.end) {
-          try {
-            const params = {
-              device: deviceId,
-              sensor: sensor,
-              eTime: cursor.end,
-              lim: cursor.limit,
-              cursor: 'true'
-            };
-
-            const response: AxiosResponse = await axios.get(url, { params });
-
-            const responseData = response.data;
-            if (responseData.success) {
-              throw new Error(this.errorMessage(response, url));
-            }
+    // Get sensor list and metadata
+    const { metadata, sensorList: finalSensorList } = await this.resolveSensors(deviceId, sensorList, useOnPrem, signal);
 
-            // Add data to collection
-            if (responseData.data) {
-              allData.push(...responseData.data);
-            }
+    const unixEnd = Math.floor(this.timeToUnix(endTime) / 1000);
 
-            // Update cursor for next iteration
-            cursor = responseData.cursor;
+    // Process each sensor individually with cursor-based pagination
+    for (const sensor of finalSensorList) {
+      let cursor: CursorInfo = { end: unixEnd, limit: n };
 
-          } catch (error: any) {
-            retry++;
-            console.error(`[${error.name}] Retry ${retry}: ${error.message}`);
+      while (cursor?.end) {
+        const params = {
+          device: deviceId,
+          sensor: sensor,
+          eTime: cursor.end,
+          lim: cursor.limit,
+          cursor: 'true'
+        };
 
-            if (retry >= MAX_RETRIES) {
-              throw new Error(`Max retries reached while calling ${url}`);
-            }
+        const response: AxiosResponse = await this.transport.get(url, { params, signal });
 
-            const waitTime = retry > 5 ? RETRY_DELAY[1] : RETRY_DELAY[0];
-            await this._sleep(waitTime);
-          }
+        const responseData = response.data;
+        if (responseData.success) {
+          throw new ApiError(`Unexpected response from ${url}`, {
+            url,
+            status: response.status,
+            body: responseData,
+          });
         }
-      }
 
-      // Process collected data if not empty
-      if (allData.length > 0) {
-        const formattedData = this.formatSensorData(allData);
-        return this.getCleanedTable({
-          data: formattedData,
-          alias,
-          cal,
-          deviceId: false,
-          sensorList: finalSensorList!,
-          onPrem: useOnPrem,
-          unix,
-          metadata,
-          pivotTable: false
-        });
+        // Update cursor for next iteration
+        cursor = responseData.cursor;
+
+        // Clean and hand out this page before fetching the next one
+        if (responseData.data && responseData.data.length > 0) {
+          yield this.getCleanedTable({
+            data: this.formatSensorData(responseData.data),
+            alias,
+            cal,
+            deviceId: false,
+            sensorList: finalSensorList,
+            onPrem: useOnPrem,
+            unix,
+            timeFormat,
+            rawValues,
+            metadata,
+            pivotTable: false
+          });
+        }
       }
-
-      return [];
-
-    } catch (err: any) {
-      console.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
-      return [];
     }
   }
 
@@ -1102,13 +1381,19 @@ export default class DataAccess {
    * Queries sensor data for a device within a specified time range.
    * @param options - Configuration options
    * @param options.deviceId - The ID of the device to fetch data from
-   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
+   * @param options.sensorList - List of sensor IDs or names (from the device metadata). If null, fetches data for all sensors
    * @param options.startTime - Start time for the query range (Unix timestamp in milliseconds)
    * @param options.endTime - End time for the query range (Unix timestamp in milliseconds)
    * @param options.cal - Whether to apply calibration to sensor values
    * @param options.alias - Whether to use sensor aliases instead of IDs
    * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Output timestamps as 'iso' (ISO 8601 with the instance timezone offset), 'unix' (milliseconds) or 'local' ("YYYY-MM-DD HH:mm:ss" in the instance timezone). Overrides unix
+   * @param options.rawValues - Also return each uncalibrated value, as `raw` on long rows or a `<sensor>_raw` column on pivoted rows
    * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @param options.parallel - Ask the platform for batch boundaries and download the batches concurrently. Defaults to false
+   * @param options.concurrency - Maximum number of batches downloaded at once when parallel is set. Defaults to 4
+   * @param options.resample - Aggregate the calibrated rows to fixed intervals ('1m', '15m', '1h'), shifts or days; see the `resample()` helper
    * @returns Array of sensor data points with the following structure:
    * ```typescript
    * Array<{
@@ -1137,6 +1422,15 @@ export default class DataAccess {
    *   unix: false                  // Return ISO timestamps
    * });
    * 
+   * // Backfill a quarter, downloading 8 batches at a time
+   * const quarter = await dataAccess.dataQuery({
+   *   deviceId: 'DS_TEST_DTING',
+   *   startTime: '2024-01-01T00:00:00Z',
+   *   endTime: '2024-04-01T00:00:00Z',
+   *   parallel: true,
+   *   concurrency: 8
+   * });
+   * 
    * // Example output:
    * // [
    * //   {
@@ -1162,11 +1456,57 @@ export default class DataAccess {
    * // ]
    * ```
    * 
-   * @throws Error if the time range is invalid (start > end)
-   * @throws Error if the specified device is not found in the account
-   * @throws Error if no sensor data is available for the device
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for the device
    */
   async dataQuery(options: DataQueryOptions): Promise<any[]> {
+    try {
+      const rows: any[] = [];
+      for await (const batch of this.dataQueryStream(options)) {
+        rows.push(...batch);
+      }
+      return rows;
+
+    } catch (err: any) {
+      this.logger.error('dataQuery failed', { deviceId: options.deviceId, error: err });
+      return this.fail(err, []);
+    }
+  }
+
+  /**
+   * Streaming variant of {@link DataAccess.dataQuery}. Each cursor page is
+   * cleaned (calibration, alias, unix, pivot) as soon as it arrives and yielded
+   * as one batch, so months of high-frequency data can be written to disk or a
+   * database without holding it all in memory. The next page is only requested
+   * once the previous batch has been consumed; breaking out of the loop stops
+   * the download.
+   * @param options - Same options as dataQuery
+   * @returns Async iterable of row batches, in the same row format as dataQuery
+   *
+   * @example
+   * ```typescript
+   * const out = fs.createWriteStream('avt.ndjson');
+   * for await (const batch of dataAccess.dataQueryStream({
+   *   deviceId: 'DEVICE_001',
+   *   sensorList: ['AVT'],
+   *   startTime: '2024-01-01T00:00:00Z',
+   *   endTime: '2024-04-01T00:00:00Z'
+   * })) {
+   *   for (const row of batch) out.write(JSON.stringify(row) + '\n');
+   * }
+   * ```
+   *
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for the device
+   * @throws ApiError if the API request fails or returns an error response
+   *
+   * Errors are always thrown from the iterator, also in legacy error mode.
+   */
+  async *dataQueryStream(options: DataQueryOptions): AsyncGenerator<any[], void, undefined> {
     const {
       deviceId,
       sensorList = null,
@@ -1175,171 +1515,744 @@ export default class DataAccess {
       cal = true,
       alias = false,
       unix = false,
+      timeFormat,
+      rawValues = false,
       onPrem = null,
+      signal,
+      parallel = false,
+      concurrency = BATCH_CONCURRENCY,
+      resample = null,
     } = options;
 
-    try {
-      const useOnPrem = onPrem ?? this.onPrem;
-      const startUnix = this.timeToUnix(startTime);
-      const endUnix = this.timeToUnix(endTime);
-
-      if (endUnix < startUnix) {
-        throw new Error(`Invalid time range: start (${startTime}) > end (${endTime})`);
-      }
+    const useOnPrem = onPrem ?? this.onPrem;
+    const startUnix = this.timeToUnix(startTime);
+    const endUnix = this.timeToUnix(endTime);
 
-      const devices = await this.getDeviceDetails(useOnPrem);
-      if (Array.isArray(devices)) {
-        if (!devices.some(d => d.devID === deviceId)) {
-          throw new Error(`Device ${deviceId} not found in account`);
-        }
-      } else {
-        throw new Error("Failed to fetch device details");
-      }
+    if (endUnix < startUnix) {
+      throw new InvalidTimeRangeError(startTime, endTime);
+    }
 
-      let metadata: DeviceMetadata | null = null;
-      let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
-          metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensors available.");
-        } else {
-          throw new Error("Failed to fetch device metadata");
-        }
-      }
+    await this.validateDevice(deviceId, useOnPrem, signal);
 
-      return await this._influxdb({
-        deviceId,
-        startTime: startUnix,
-        endTime: endUnix,
-        alias,
-        cal,
-        unix,
-        sensorList: finalSensorList!,
-        metadata,
-        onPrem: useOnPrem,
-      });
+    const { metadata, sensorList: finalSensorList } = await this.resolveSensors(deviceId, sensorList, useOnPrem, signal);
 
-    } catch (err: any) {
-      console.error(`[DATA_QUERY ERROR] ${err.name}: ${err.message}`);
-      return [];
-    }
+    yield* this._influxdb({
+      deviceId,
+      startTime: startUnix,
+      endTime: endUnix,
+      alias,
+      cal,
+      unix,
+      timeFormat,
+      rawValues,
+      sensorList: finalSensorList,
+      metadata,
+      onPrem: useOnPrem,
+      signal,
+      parallel,
+      concurrency,
+      resample,
+    });
   }
 
   /**
-   * Internal method to fetch data from InfluxDB with cursor-based pagination
-   * @param options - Configuration options for InfluxDB query
-   * @returns Array of sensor data points
-   */
-  private async _influxdb(options: InfluxDbOptions): Promise<any[]> {
-    const {
-      deviceId,
-      startTime,
-      endTime,
-      alias = false,
+   * Queries several devices over the same time range and joins the results.
+   * @param options - Configuration options
+   * @param options.devices - Devices to query, each with its own sensor IDs or names (all sensors if omitted)
+   * @param options.startTime - Start time for the query range (Unix timestamp in milliseconds, ISO string or Date)
+   * @param options.endTime - End time for the query range
+   * @param options.format - 'long' for one row per device, sensor and timestamp; 'wide' for one row per time bucket with a column per device and sensor. Defaults to 'long'
+   * @param options.resample - Common time axis; required for the wide format. See the `resample()` helper
+   * @param options.separator - Separator between device ID and sensor in wide column names. Defaults to "."
+   * @param options.cal - Whether to apply calibration to sensor values
+   * @param options.alias - Whether to use sensor aliases instead of IDs
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Output timestamps as 'iso', 'unix' or 'local'. Overrides unix
+   * @param options.rawValues - Also return each uncalibrated value, as `raw` on long rows or a `<device>.<sensor>_raw` column on wide rows
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @param options.concurrency - Maximum number of devices queried at once. Defaults to 4
+   * @returns Rows sorted by time, with the following structure:
+   * ```typescript
+   * // format 'long'
+   * Array<{
+   *   time: string | number;   // Timestamp, or bucket start when resampling
+   *   shift?: string;          // Shift name, for resample interval 'shift'
+   *   deviceId: string;
+   *   sensor: string;          // Sensor ID or name (based on alias option)
+   *   value: number | null;
+   * }>
+   *
+   * // format 'wide'
+   * Array<{
+   *   timestamp: string | number;        // Bucket start
+   *   shift?: string;
+   *   [deviceSensor: string]: any;       // e.g. "SDPLYPLC_01.D5"; null when the device has no data in the bucket
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const machines = ['SDPLYPLC_01', 'SDPLYPLC_02', 'SDPLYPLC_03'];
+   * const rows = await dataAccess.multiDeviceQuery({
+   *   devices: machines.map(deviceId => ({ deviceId, sensors: ['D5', 'D12'] })),
+   *   startTime: '2024-05-01T00:00:00Z',
+   *   endTime: '2024-05-02T00:00:00Z',
+   *   format: 'wide',
+   *   resample: { interval: '15m', agg: { D12: 'sum' } },
+   *   concurrency: 3
+   * });
+   * // [{ timestamp: "2024-05-01T00:00:00.000Z", "SDPLYPLC_01.D5": 71.2, "SDPLYPLC_01.D12": 40, "SDPLYPLC_02.D5": 69.8, ... }]
+   * ```
+   *
+   * Results are all or nothing: when a device fails, the devices still being
+   * queried are cancelled and the call fails with the error of the first
+   * failed device in list order.
+   *
+   * @throws ValidationError if no devices are given, a device is listed twice, or the wide format is requested without resample
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if one of the devices is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws IosenseError if no sensor data is available for a device
+   * @throws ApiError if the API request fails or returns an error response
+   */
+  async multiDeviceQuery(options: MultiDeviceQueryOptions): Promise<any[]> {
+    const {
+      devices,
+      startTime = null,
+      endTime = null,
+      format = 'long',
+      resample = null,
+      separator = '.',
       cal = true,
+      alias = false,
       unix = false,
-      sensorList = [],
-      metadata = null,
+      timeFormat,
+      rawValues = false,
       onPrem = null,
+      signal,
+      concurrency = BATCH_CONCURRENCY,
     } = options;
 
-    const MAX_RETRIES_INFLUX = 8;
-    const RETRY_DELAY_INFLUX = [2000, 10000]; // ms
-    const CURSOR_LIMIT = 1000;
-
     try {
-      const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = INFLUXDB_URL.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
+      if (!devices || devices.length === 0) {
+        throw new ValidationError('At least one device is required');
+      }
+      const deviceIds = devices.map(device => device.deviceId);
+      const duplicate = deviceIds.find((id, i) => deviceIds.indexOf(id) !== i);
+      if (duplicate) {
+        throw new ValidationError(`Device ${duplicate} is listed more than once`);
+      }
+      if (format === 'wide' && !resample) {
+        throw new ValidationError('The wide format requires resample options for a common time axis');
+      }
 
-      let finalSensorList = sensorList;
-      let finalMetadata = metadata;
+      // Resolve the range once so every device covers exactly the same one
+      const startUnix = this.timeToUnix(startTime);
+      const endUnix = this.timeToUnix(endTime);
+      if (endUnix < startUnix) {
+        throw new InvalidTimeRangeError(startTime, endTime);
+      }
 
-      if (!finalSensorList || finalSensorList.length === 0) {
-        if (!finalMetadata) {
-          const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-          if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
-            finalMetadata = metadataResult as DeviceMetadata;
-          } else {
-            throw new Error("Failed to fetch device metadata");
-          }
+      // Rows are fetched with Unix timestamps so they can be merged and
+      // sorted, then formatted once at the end
+      const outputFormat = timeFormat ?? (unix ? 'unix' : null);
+      const outputTime = (time: number): string | number =>
+        outputFormat ? formatTime(time, outputFormat, this.tz) : new Date(time).toISOString();
+
+      // Cancels devices still in flight when one device fails
+      const controller = new AbortController();
+      const onAbort = (): void => controller.abort(signal?.reason);
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const queryDevice = async (device: DeviceQuery): Promise<any[]> => {
+        const rows: any[] = [];
+        for await (const batch of this.dataQueryStream({
+          deviceId: device.deviceId,
+          sensorList: device.sensors ?? null,
+          startTime: startUnix,
+          endTime: endUnix,
+          cal,
+          alias,
+          timeFormat: 'unix',
+          rawValues,
+          onPrem,
+          signal: controller.signal,
+          resample,
+        })) {
+          rows.push(...batch);
         }
-        finalSensorList = finalMetadata?.sensors?.map(s => s.sensorId) || [];
-        if (!finalSensorList || finalSensorList.length === 0) {
-          throw new Error("No sensor data available.");
+        this.logger.debug('Device query complete', { deviceId: device.deviceId, rows: rows.length });
+        return rows;
+      };
+
+      const results: any[][] = [];
+      try {
+        for await (const rows of mapConcurrent(devices, concurrency, queryDevice)) {
+          results.push(rows);
         }
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        controller.abort();
       }
 
-      const sensorValues = finalSensorList.join(',');
-      let cursor: CursorData = { start: startTime, end: endTime };
-      let allData: any[] = [];
-      let retry = 0;
+      const isValueColumn = (key: string): boolean => key !== 'timestamp' && key !== 'shift';
+
+      if (format === 'wide') {
+        const columns: string[] = [];
+        const byTime = new Map<number, any>();
+        results.forEach((rows, i) => {
+          const prefix = `${deviceIds[i]}${separator}`;
+          const seen = new Set<string>();
+          for (const row of rows) {
+            let joined = byTime.get(row.timestamp);
+            if (!joined) {
+              joined = { timestamp: row.timestamp };
+              if (row.shift !== undefined) joined.shift = row.shift;
+              byTime.set(row.timestamp, joined);
+            }
+            for (const key of Object.keys(row).filter(isValueColumn)) {
+              joined[prefix + key] = row[key];
+              if (!seen.has(key)) {
+                seen.add(key);
+                columns.push(prefix + key);
+              }
+            }
+          }
+        });
 
-      console.log(`🔍 Polling data for ${deviceId} from Influx...`);
+        return [...byTime.keys()]
+          .sort((a, b) => a - b)
+          .map(time => {
+            const joined = byTime.get(time);
+            const row: any = { timestamp: outputTime(time) };
+            if (joined.shift !== undefined) row.shift = joined.shift;
+            for (const column of columns) row[column] = joined[column] ?? null;
+            return row;
+          });
+      }
 
-      while (cursor?.start && cursor?.end) {
-        try {
-          const params = {
-            device: deviceId,
-            sensor: sensorValues,
-            sTime: cursor.start,
-            eTime: cursor.end,
-            cursor: true,
-            limit: CURSOR_LIMIT,
-          };
-
-          const startReq = Date.now();
-          const response: AxiosResponse = await axios.get(url, { params });
-          console.log(`✅ API ${url} responded in ${Date.now() - startReq}ms`);
-
-          const { data, cursor: newCursor, success } = response.data;
-          if (success) throw new Error("Influx error: " + JSON.stringify(response.data));
-
-          if (Array.isArray(data)) allData.push(...data);
-          cursor = newCursor;
-
-          console.log(`📦 Fetched ${allData.length} data points so far.`);
-
-        } catch (err: any) {
-          retry++;
-          console.log(`[${err.name}] Retry ${retry}: ${err.message}`);
-          if (retry < MAX_RETRIES_INFLUX) {
-            const delay = retry > 5 ? RETRY_DELAY_INFLUX[1] : RETRY_DELAY_INFLUX[0];
-            await this._sleep(delay);
-          } else {
-            throw new Error("Max retries reached fetching data.");
+      const result: any[] = [];
+      results.forEach((rows, i) => {
+        for (const row of rows) {
+          const keys = Object.keys(row).filter(isValueColumn);
+          for (const sensor of keys) {
+            if (rawValues && sensor.endsWith('_raw') && keys.includes(sensor.slice(0, -4))) continue;
+            const longRow: any = { time: row.timestamp };
+            if (row.shift !== undefined) longRow.shift = row.shift;
+            longRow.deviceId = deviceIds[i];
+            longRow.sensor = sensor;
+            longRow.value = row[sensor];
+            if (rawValues) longRow.raw = row[`${sensor}_raw`] ?? null;
+            result.push(longRow);
           }
         }
+      });
+
+      // Stable sort keeps device order within each timestamp
+      result.sort((a, b) => a.time - b.time);
+      for (const row of result) row.time = outputTime(row.time);
+      return result;
+
+    } catch (err: any) {
+      this.logger.error('multiDeviceQuery failed', { devices: devices?.map(device => device.deviceId), error: err });
+      return this.fail(err, []);
+    }
+  }
+
+  /**
+   * Internal method to fetch data from InfluxDB with cursor-based pagination
+   * @param options - Configuration options for InfluxDB query
+   * @returns Async iterable yielding the cleaned rows of each page
+   */
+  private async *_influxdb(options: InfluxDbOptions): AsyncGenerator<any[], void, undefined> {
+    const {
+      deviceId,
+      startTime,
+      endTime,
+      alias = false,
+      cal = true,
+      unix = false,
+      timeFormat,
+      rawValues = false,
+      sensorList = [],
+      metadata = null,
+      onPrem = null,
+      signal,
+      parallel = false,
+      concurrency = BATCH_CONCURRENCY,
+      resample = null,
+    } = options;
+
+    const useOnPrem = onPrem ?? this.onPrem;
+    const url = this.formatUrl(INFLUXDB_URL, useOnPrem);
+    const bucketer = resample ? createBucketer({ ...resample, tz: resample.tz ?? this.tz }) : null;
+
+    let finalSensorList = sensorList;
+    let finalMetadata = metadata;
+
+    if (!finalSensorList || finalSensorList.length === 0) {
+      if (!finalMetadata) {
+        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem, signal);
+        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
+          finalMetadata = metadataResult as DeviceMetadata;
+        } else {
+          throw new IosenseError("Failed to fetch device metadata");
+        }
+      }
+      finalSensorList = finalMetadata?.sensors?.map(s => s.sensorId) || [];
+      if (!finalSensorList || finalSensorList.length === 0) {
+        throw new IosenseError("No sensor data available.");
+      }
+    }
+
+    const sensorValues = finalSensorList.join(',');
+    let pending: any[] = [];
+
+    this.logger.debug('Polling data from Influx', { deviceId, url, parallel });
+
+    const pages = parallel
+      ? this.influxdbBatches(deviceId, sensorValues, startTime, endTime, useOnPrem, concurrency, signal)
+      : this.influxdbPages(url, deviceId, sensorValues, startTime, endTime, signal);
+
+    for await (const { data, more } of pages) {
+      const rows = pending.concat(data);
+      pending = [];
+
+      // Hold back the rows of the last timestamp while more pages follow: the
+      // remaining sensors of that timestamp may arrive on the next page and
+      // must end up in the same pivoted row. When resampling, hold back the
+      // whole last bucket for the same reason.
+      if (more && rows.length > 0) {
+        const keyOf = bucketer
+          ? (row: any) => bucketer(this.timeToUnix(row.time)).start
+          : (row: any) => row.time;
+        const lastKey = keyOf(rows[rows.length - 1]);
+        let split = rows.length;
+        while (split > 0 && keyOf(rows[split - 1]) === lastKey) split--;
+        pending = rows.splice(split);
       }
 
-      if (allData.length > 0) {
-        console.log({ allData });
-        return this.getCleanedTable({
-          data: allData,
+      if (rows.length > 0) {
+        yield this.getCleanedTable({
+          data: rows,
           alias,
           cal,
           deviceId: false,
           sensorList: finalSensorList,
           onPrem: useOnPrem,
           unix,
+          timeFormat,
+          rawValues,
           metadata: finalMetadata,
+          resample,
+        });
+      }
+    }
+  }
+
+  /**
+   * Walks the Influx cursor for one time range, yielding the raw rows of each page.
+   * @param url - Formatted INFLUXDB_URL
+   * @param deviceId - The device to fetch data from
+   * @param sensorValues - Comma separated sensor IDs
+   * @param startTime - Range start (Unix timestamp in milliseconds)
+   * @param endTime - Range end (Unix timestamp in milliseconds)
+   * @param signal - Optional AbortSignal to cancel in-flight requests
+   * @returns Async iterable of raw pages; `more` is false on the last page
+   */
+  private async *influxdbPages(
+    url: string,
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<{ data: any[]; more: boolean }, void, undefined> {
+    const CURSOR_LIMIT = 1000;
+
+    let cursor: CursorData = { start: startTime, end: endTime };
+    let fetched = 0;
+
+    while (cursor?.start && cursor?.end) {
+      const params = {
+        device: deviceId,
+        sensor: sensorValues,
+        sTime: cursor.start,
+        eTime: cursor.end,
+        cursor: true,
+        limit: CURSOR_LIMIT,
+      };
+
+      const startReq = Date.now();
+      const response: AxiosResponse = await this.transport.get(url, { params, signal });
+      this.logger.debug('API response', { url, deviceId, durationMs: Date.now() - startReq });
+
+      const { data, cursor: newCursor, success } = response.data;
+      if (success) {
+        throw new ApiError("Influx error: " + JSON.stringify(response.data), {
+          url,
+          status: response.status,
+          body: response.data,
         });
-      } else {
-        return [];
       }
 
+      const pageData = Array.isArray(data) ? data : [];
+      cursor = newCursor;
+      fetched += pageData.length;
+
+      this.logger.debug('Fetched data points', { deviceId, count: fetched });
+
+      yield { data: pageData, more: Boolean(cursor?.start && cursor?.end) };
+    }
+  }
+
+  /**
+   * Asks the platform how to split a time range into batches.
+   * @param deviceId - The device to fetch data from
+   * @param sensorValues - Comma separated sensor IDs
+   * @param startTime - Range start (Unix timestamp in milliseconds)
+   * @param endTime - Range end (Unix timestamp in milliseconds)
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Batch boundaries sorted by start time
+   */
+  private async getCursorBatches(
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    onPrem: boolean,
+    signal?: AbortSignal
+  ): Promise<Required<CursorData>[]> {
+    const url = this.formatUrl(GET_CURSOR_BATCHES_URL, onPrem);
+    const payload = {
+      devID: deviceId,
+      sensorList: sensorValues.split(','),
+      sTime: startTime,
+      eTime: endTime,
+    };
+
+    const response: AxiosResponse = await this.transport.put(url, payload, {
+      signal,
+      coalesce: true,
+    });
+
+    // The boundaries come back either as data.cursor or directly as data
+    const body = response.data;
+    const batches = Array.isArray(body?.data?.cursor) ? body.data.cursor : body?.data;
+    if (!Array.isArray(batches)) {
+      throw new ApiError('Missing batch boundaries in response', {
+        url,
+        status: response.status,
+        body,
+      });
+    }
+
+    return batches
+      .filter((batch: CursorData) => batch?.start && batch?.end)
+      .map((batch: CursorData) => ({ start: Number(batch.start), end: Number(batch.end) }))
+      .sort((a: Required<CursorData>, b: Required<CursorData>) => a.start - b.start);
+  }
+
+  /**
+   * Downloads the batches returned by getCursorBatches concurrently and yields
+   * each batch as one page, in time order.
+   * @returns Async iterable of raw pages; `more` is false on the last batch
+   */
+  private async *influxdbBatches(
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    onPrem: boolean,
+    concurrency: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<{ data: any[]; more: boolean }, void, undefined> {
+    const url = this.formatUrl(INFLUXDB_URL, onPrem);
+    const batches = await this.getCursorBatches(deviceId, sensorValues, startTime, endTime, onPrem, signal);
+
+    this.logger.debug('Downloading batches', { deviceId, batches: batches.length, concurrency });
+
+    // Cancels batches still in flight when the consumer stops early or one batch fails
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const download = async (batch: Required<CursorData>): Promise<any[]> => {
+      const rows: any[] = [];
+      for await (const page of this.influxdbPages(url, deviceId, sensorValues, batch.start, batch.end, controller.signal)) {
+        rows.push(...page.data);
+      }
+      return rows;
+    };
+
+    try {
+      let index = 0;
+      for await (const rows of mapConcurrent(batches, concurrency, download)) {
+        index++;
+        yield { data: rows, more: index < batches.length };
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+    }
+  }
+
+  /**
+   * Computes the consumption of cumulative sensors (energy meters, shot
+   * counters, ...) per period from the first and last datapoint of each period.
+   * @param options - Configuration options
+   * @param options.deviceId - The ID of the device to fetch data from
+   * @param options.sensorList - List of sensor IDs or names. If null, uses all sensors of the device
+   * @param options.startTime - Start of the range (Unix timestamp in milliseconds, ISO string or Date)
+   * @param options.endTime - End of the range. Defaults to now
+   * @param options.period - Bucket size: 'hour', 'day', 'shift' or 'month'. If null, the whole range is one bucket
+   * @param options.cycleStart - Wall-clock time ("HH:mm", in the instance timezone) at which days and months start. Defaults to "00:00"
+   * @param options.shifts - Shift start times, required when period is 'shift'
+   * @param options.cal - Whether to apply calibration to the start and end values
+   * @param options.alias - Whether to use sensor aliases instead of IDs
+   * @param options.unix - Whether to return bucket times in Unix format
+   * @param options.timeFormat - Output bucket times as 'iso' (ISO 8601 with the instance timezone offset), 'unix' (milliseconds) or 'local' ("YYYY-MM-DD HH:mm:ss" in the instance timezone). Overrides unix
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @param options.concurrency - Maximum number of periods requested at once. Defaults to 4
+   * @returns One row per period and sensor with the following structure:
+   * ```typescript
+   * Array<{
+   *   time: string | number;      // Period start (ISO string or Unix timestamp based on unix option)
+   *   endTime: string | number;   // Period end
+   *   shift?: string;             // Shift name, for period 'shift'
+   *   sensor: string;             // Sensor ID or name (based on alias option)
+   *   startValue: number | null;  // The previous period's end value, or the first counter value in the period
+   *   endValue: number | null;    // Last counter value in the period
+   *   consumption: number | null; // Usage from startValue to endValue
+   *   reset: boolean;             // Whether the counter went backwards since startValue
+   * }>
+   * ```
+   *
+   * The first and last datapoint of each period come from the consumption
+   * endpoint. Each period starts at the end value of the last period with
+   * data, so usage between two periods is counted in the later one and the
+   * periods add up to the total of the range. A value lower than the one
+   * before it (the previous end value, or the period's own first value) is
+   * taken as a counter reset to zero and counted as usage since the reset;
+   * usage between the last reading before a reset and the reset itself is
+   * not visible to the endpoint. Periods without data have null values.
+   *
+   * @example
+   * ```typescript
+   * // Daily energy for a production day starting at 06:00 in the instance timezone
+   * const daily = await dataAccess.getConsumption({
+   *   deviceId: 'EM_01',
+   *   sensorList: ['ENERGY'],
+   *   startTime: '2024-05-01T00:30:00Z',
+   *   endTime: '2024-05-08T00:30:00Z',
+   *   period: 'day',
+   *   cycleStart: '06:00'
+   * });
+   *
+   * // Shot count per shift
+   * const perShift = await dataAccess.getConsumption({
+   *   deviceId: 'IMM_11',
+   *   sensorList: ['SHOTS'],
+   *   startTime: '2024-05-01T00:30:00Z',
+   *   period: 'shift',
+   *   shifts: [{ name: 'A', start: '06:00' }, { name: 'B', start: '14:00' }, { name: 'C', start: '22:00' }]
+   * });
+   * ```
+   *
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if the specified device is not found in the account
+   * @throws SensorNotFoundError if a requested sensor ID or name does not exist on the device, listing close matches
+   * @throws ValidationError if period is 'shift' without shifts, or cycleStart is not a valid time
+   * @throws IosenseError if no sensor data is available for the device
+   * @throws ApiError if the API request fails or returns an error response
+   */
+  async getConsumption(options: GetConsumptionOptions): Promise<ConsumptionRow[]> {
+    const {
+      deviceId,
+      sensorList = null,
+      startTime = null,
+      endTime = null,
+      period = null,
+      cycleStart = '00:00',
+      shifts,
+      cal = true,
+      alias = false,
+      unix = false,
+      timeFormat,
+      onPrem = null,
+      signal,
+      concurrency = BATCH_CONCURRENCY,
+    } = options;
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = this.timeToUnix(startTime);
+      const endUnix = this.timeToUnix(endTime);
+
+      if (endUnix < startUnix) {
+        throw new InvalidTimeRangeError(startTime, endTime);
+      }
+
+      await this.validateDevice(deviceId, useOnPrem, signal);
+
+      const { metadata, sensorList: finalSensorList } = await this.resolveSensors(deviceId, sensorList, useOnPrem, signal);
+
+      const buckets: PeriodBucket[] = period
+        ? periodBuckets(startUnix, endUnix, period, { tz: this.tz, cycleStart, shifts })
+        : [{ start: startUnix, end: endUnix }];
+
+      const url = this.formatUrl(CONSUMPTION_URL, useOnPrem);
+      const sensors = finalSensorList;
+
+      // One row per bucket, sensor and boundary so calibration and aliases
+      // go through the same cleaning as the other queries
+      const rawRows: any[] = [];
+      let index = 0;
+      for await (const values of mapConcurrent(buckets, concurrency, bucket =>
+        this.getStartEndValues(url, deviceId, sensors, bucket, signal)
+      )) {
+        for (const sensor of sensors) {
+          rawRows.push(
+            { bucket: index, boundary: 'start', sensor, value: values[sensor]?.start ?? null },
+            { bucket: index, boundary: 'end', sensor, value: values[sensor]?.end ?? null }
+          );
+        }
+        index++;
+      }
+
+      const cleaned = this.getCleanedTable({
+        data: rawRows,
+        alias,
+        cal,
+        deviceId: false,
+        onPrem: useOnPrem,
+        metadata,
+        pivotTable: false,
+      });
+
+      const outputFormat = timeFormat ?? (unix ? 'unix' : null);
+      const outputTime = (time: number): string | number =>
+        outputFormat ? formatTime(time, outputFormat, this.tz) : new Date(time).toISOString();
+      const toNumber = (value: any): number | null => {
+        const parsed = value === null || value === undefined ? NaN : parseFloat(value);
+        return isNaN(parsed) ? null : parsed;
+      };
+
+      // End value of the last period with data, per sensor
+      const previousEnd = new Map<string, number>();
+      const result: ConsumptionRow[] = [];
+      for (let i = 0; i < cleaned.length; i += 2) {
+        const startRow = cleaned[i];
+        const endRow = cleaned[i + 1];
+        const bucket = buckets[startRow.bucket];
+        const first = toNumber(startRow.value);
+        const endValue = toNumber(endRow.value);
+
+        let startValue: number | null = null;
+        let consumption: number | null = null;
+        let reset = false;
+        if (first !== null && endValue !== null) {
+          const before = previousEnd.get(startRow.sensor);
+          startValue = before ?? first;
+          consumption = 0;
+          for (const [from, to] of [[startValue, first], [first, endValue]]) {
+            if (to < from) {
+              reset = true;
+              consumption += to;
+            } else {
+              consumption += to - from;
+            }
+          }
+          previousEnd.set(startRow.sensor, endValue);
+        }
+
+        const row: ConsumptionRow = {
+          time: outputTime(bucket.start),
+          endTime: outputTime(bucket.end),
+          sensor: startRow.sensor,
+          startValue,
+          endValue,
+          consumption,
+          reset,
+        };
+        if (bucket.shift !== undefined) row.shift = bucket.shift;
+        result.push(row);
+      }
+
+      return result;
+
     } catch (err: any) {
-      console.error(`[INFLUXDB ERROR] ${err.name}: ${err.message}`);
-      return [];
+      this.logger.error('getConsumption failed', { deviceId, error: err });
+      return this.fail(err, []);
+    }
+  }
+
+  /**
+   * Fetches the first and last datapoint of each sensor within one bucket.
+   * @param url - Formatted CONSUMPTION_URL
+   * @param deviceId - The device to fetch data from
+   * @param sensors - Sensor IDs
+   * @param bucket - Time range of the bucket
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Start and end value per sensor ID
+   */
+  private async getStartEndValues(
+    url: string,
+    deviceId: string,
+    sensors: string[],
+    bucket: PeriodBucket,
+    signal?: AbortSignal
+  ): Promise<Record<string, StartEndValues>> {
+    const params = {
+      device: deviceId,
+      sensor: sensors.join(','),
+      sTime: bucket.start,
+      eTime: bucket.end,
+    };
+
+    const startReq = Date.now();
+    const response: AxiosResponse = await this.transport.get(url, {
+      params,
+      signal,
+    });
+    this.logger.debug('API response', { url, deviceId, durationMs: Date.now() - startReq });
+
+    const body = response.data;
+    if (!body || body.success === false || body.data === undefined) {
+      throw new ApiError(`Unexpected response from ${url}`, {
+        url,
+        status: response.status,
+        body,
+      });
     }
+
+    // data is keyed by sensor ID, or a list of entries carrying the sensor ID:
+    // { [sensor]: { startDP: { time, value }, endDP: { time, value } } }
+    const entries: Array<[string, any]> = Array.isArray(body.data)
+      ? body.data.map((entry: any) => [entry?.sensor, entry])
+      : Object.entries(body.data || {});
+
+    const values: Record<string, StartEndValues> = {};
+    for (const [sensor, entry] of entries) {
+      if (!sensor) continue;
+      values[sensor] = {
+        start: entry?.startDP?.value ?? null,
+        end: entry?.endDP?.value ?? null,
+      };
+    }
+    return values;
   }
 
   /**
    * Retrieves load entities (clusters) from the API with pagination support.
+   * The list is cached for `cacheTtlMs`; see {@link DataAccess.invalidateCache}.
    * @param options - Configuration options
    * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
    * @param options.clusters - List of cluster names/IDs to filter by. If null, returns all clusters
    * @returns Array of load entities/clusters with the following structure:
    * ```typescript
@@ -1392,86 +2305,61 @@ export default class DataAccess {
    * // ]
    * ```
    * 
-   * @throws Error if no clusters are provided when clusters parameter is an empty array
-   * @throws Error if the API request fails after maximum retries
-   * @throws Error if the API returns an error response
+   * @throws ValidationError if no clusters are provided when clusters parameter is an empty array
+   * @throws MaxRetriesExceededError if the API request fails after maximum retries
+   * @throws ApiError if the API returns an error response
    */
   async getLoadEntities(options: GetLoadEntitiesOptions = {}): Promise<LoadEntity[]> {
-    const { onPrem = null, clusters = null } = options;
+    const { onPrem = null, clusters = null, signal } = options;
 
     try {
       // Validate clusters input
       if (clusters !== null && clusters.length === 0) {
-        throw new Error("No clusters provided.");
+        throw new ValidationError("No clusters provided.");
       }
 
       // Use provided onPrem value or fall back to instance default
       const useOnPrem = onPrem !== null ? onPrem : this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
 
-      let pageCount = 1;
-      let hasMore = true;
-      const pageSize = 5;
-      let retry = 0;
+      const result = await this.cached(`loadEntities|${useOnPrem}`, async () => {
+        let pageCount = 1;
+        let hasMore = true;
+        const pageSize = 5;
 
-      let result: LoadEntity[] = [];
-      let response: AxiosResponse | undefined = undefined;
+        let entities: LoadEntity[] = [];
 
-      // Construct API URL for data retrieval
-      const baseUrl = GET_LOAD_ENTITIES.replace("{protocol}", protocol)
-                                       .replace("{data_url}", this.dataUrl);
-
-      const headers = { userID: this.userId };
-
-      // Configure axios request options
-      const axiosConfig = {
-        headers: headers,
-      };
+        // Construct API URL for data retrieval
+        const baseUrl = this.formatUrl(GET_LOAD_ENTITIES, useOnPrem);
 
-      while (hasMore) {
-        try {
+        while (hasMore) {
           const requestUrl = `${baseUrl}/${this.userId}/${pageCount}/${pageSize}`;
-          console.log(`Fetching load entities: ${requestUrl}`);
+          this.logger.debug('Fetching load entities', { url: requestUrl, page: pageCount });
 
-          response = await axios.get(requestUrl, axiosConfig);
+          const response: AxiosResponse = await this.transport.get(requestUrl, { signal });
 
-          // Parse the JSON response - Axios automatically parses JSON and puts it in response.data
-          if (!response) {
-            throw new Error("No response received from API");
-          }
           const responseData: LoadEntitiesResponse = response.data;
-          
+
           if (responseData.error) {
-            throw new Error(this.errorMessage(response, baseUrl));
+            throw new ApiError(`Failed to fetch load entities: ${errorMessage(response, baseUrl)}`, {
+              url: requestUrl,
+              status: response.status,
+              body: responseData,
+            });
           }
 
           // Extend result with retrieved responseData
-          result = [...result, ...responseData.data];
+          entities = [...entities, ...responseData.data];
 
           // Update pagination state
           const totalCount = responseData.totalCount;
-          hasMore = result.length < totalCount;
+          hasMore = entities.length < totalCount;
           pageCount += 1;
 
-          console.log(`Fetched ${result.length}/${totalCount} load entities`);
-
-        } catch (error: any) {
-          retry += 1;
-          const errorResponse = error.response || (response ? response : undefined);
-          console.error(
-            `[${error.name}] Retry Count: ${retry}, ${error.message} ${this.errorMessage(errorResponse, baseUrl)}`
-          );
-
-          if (retry < MAX_RETRIES) {
-            const sleepTime = retry > 5 ? RETRY_DELAY[1] : RETRY_DELAY[0];
-            await this._sleep(sleepTime);
-          } else {
-            throw new Error(
-              `Max retries for data fetching from api-layer exceeded. ${this.errorMessage(errorResponse, baseUrl)}`
-            );
-          }
+          this.logger.debug('Fetched load entities', { count: entities.length, totalCount });
         }
-      }
+
+        return entities;
+      });
 
       // Filter results by cluster names if provided
       if (clusters !== null) {
@@ -1483,14 +2371,463 @@ export default class DataAccess {
       return result;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        console.error(`[AXIOS ERROR] ${error.name}: ${error.message}`);
-      } else if (error instanceof Error) {
-        console.error(`[EXCEPTION] ${error.name}: ${error.message}`);
-      } else {
-        console.error(`[EXCEPTION] ${error}`);
+      this.logger.error('getLoadEntities failed', { error });
+      return this.fail(error, []);
+    }
+  }
+
+  /**
+   * Fetches aggregated data of a load entity (cluster), so a plant-level rollup
+   * over a group of machines comes from one call.
+   * @param options - Configuration options
+   * @param options.cluster - Name or ID of the load entity, as returned by getLoadEntities
+   * @param options.startTime - Start of the range (Unix timestamp in milliseconds, ISO string or Date)
+   * @param options.endTime - End of the range. Defaults to now
+   * @param options.operator - Aggregation applied over the cluster: 'sum', 'mean', 'min' or 'max'. Defaults to 'sum'
+   * @param options.periodicity - One value per 'hour', 'day', 'week', 'month', 'quarter' or 'year'. If null, one value for the whole range
+   * @param options.cycleTime - Wall-clock time ("HH:mm", in the instance timezone) at which periods start
+   * @param options.dataPrecision - Number of decimal places in the result. Defaults to 2
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @returns Aggregated values with the following structure:
+   * ```typescript
+   * Array<{
+   *   time: string | number;   // Period start (ISO string or Unix timestamp based on unix option)
+   *   cluster: string;         // Name of the load entity
+   *   value: number | null;    // Aggregated value over the cluster's devices
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // Daily total of the HT energy cluster, days starting at 06:00
+   * const daily = await dataAccess.getClusterData({
+   *   cluster: 'Energy Consumption ( HT )',
+   *   startTime: '2024-05-01T00:30:00Z',
+   *   endTime: '2024-05-08T00:30:00Z',
+   *   operator: 'sum',
+   *   periodicity: 'day',
+   *   cycleTime: '06:00'
+   * });
+   *
+   * // Example output:
+   * // [
+   * //   { "time": "2024-05-01T00:30:00.000Z", "cluster": "Energy Consumption ( HT )", "value": 18234.5 },
+   * //   { "time": "2024-05-02T00:30:00.000Z", "cluster": "Energy Consumption ( HT )", "value": 17950.25 }
+   * // ]
+   * ```
+   *
+   * Period times may come as epoch seconds, epoch milliseconds or ISO strings;
+   * points whose time cannot be read are skipped with a warning.
+   *
+   * @throws ValidationError if the load entity is not found or the time range is invalid
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws ApiError if the API request fails or returns an error response
+   */
+  async getClusterData(options: GetClusterDataOptions): Promise<ClusterDataRow[]> {
+    const {
+      cluster,
+      startTime = null,
+      endTime = null,
+      operator = 'sum',
+      periodicity = null,
+      cycleTime,
+      dataPrecision = 2,
+      unix = false,
+      onPrem = null,
+      signal,
+    } = options;
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = this.timeToUnix(startTime);
+      const endUnix = this.timeToUnix(endTime);
+
+      if (endUnix < startUnix) {
+        throw new InvalidTimeRangeError(startTime, endTime);
+      }
+
+      // Resolve the load entity from its name or ID
+      const [entity] = await this.getLoadEntities({ onPrem: useOnPrem, clusters: [cluster], signal });
+      if (!entity) {
+        throw new ValidationError(`Load entity "${cluster}" not found`);
+      }
+
+      const url = this.formatUrl(CLUSTER_AGGREGATION, useOnPrem);
+
+      // Build the API payload with the required parameters
+      const payload: any = {
+        userID: this.userId,
+        clusterID: entity.id,
+        startTime: startUnix,
+        endTime: endUnix,
+        operator,
+        timezone: this.tz,
+        dataPrecision,
+      };
+
+      if (periodicity) {
+        payload.periodicity = periodicity;
+      }
+
+      if (cycleTime) {
+        payload.cycleTime = cycleTime;
+      }
+
+      const startReq = Date.now();
+      const response: AxiosResponse = await this.transport.put(url, payload, {
+        signal,
+        coalesce: true,
+      });
+      this.logger.debug('API response', { url, cluster: entity.id, durationMs: Date.now() - startReq });
+
+      const body = response.data;
+      const data = body?.data;
+      if (!body || body.success === false || data === undefined) {
+        throw new ApiError(`Unexpected response from ${url}`, {
+          url,
+          status: response.status,
+          body,
+        });
+      }
+
+      // Periodic results come as a list of { time, value }; totals as a single value
+      const points: Array<{ time: any; value: any }> = Array.isArray(data)
+        ? data
+        : [{ time: startUnix, value: typeof data === 'object' && data !== null ? data.value : data }];
+
+      // Times come as epoch seconds or milliseconds, or as ISO strings that
+      // are read in the instance timezone when they have no offset
+      const toEpoch = (time: string | number | null | undefined): number | null => {
+        if (time === null || time === undefined || time === '') return null;
+        const numeric = typeof time === 'number' ? time : /^\d+$/.test(String(time).trim()) ? Number(time) : null;
+        if (numeric !== null) return numeric < 1e11 ? numeric * 1000 : numeric;
+        try {
+          return parseTime(time, this.tz);
+        } catch {
+          return null;
+        }
+      };
+
+      const result: ClusterDataRow[] = [];
+      for (const point of points) {
+        const time = toEpoch(point.time);
+        if (time === null) {
+          this.logger.warn('Skipping cluster data point with an invalid time', { cluster: entity.id, time: point.time });
+          continue;
+        }
+        const value = point.value === null || point.value === undefined ? NaN : parseFloat(point.value);
+        result.push({
+          time: unix ? time : new Date(time).toISOString(),
+          cluster: entity.name,
+          value: isNaN(value) ? null : value,
+        });
+      }
+      return result;
+
+    } catch (err: any) {
+      this.logger.error('getClusterData failed', { cluster, error: err });
+      return this.fail(err, []);
+    }
+  }
+
+  /**
+   * Aggregates sensor data of a device over the datapoints that pass a set of
+   * filters, e.g. the mean power while the machine is running.
+   * @param options - Configuration options
+   * @param options.deviceId - The device to fetch data from
+   * @param options.sensorList - Sensors to aggregate, by ID or name. If null, all sensors of the device
+   * @param options.operator - Aggregation: 'sum', 'mean', 'median', 'mode', 'min', 'max' or 'count'. Defaults to 'mean'
+   * @param options.startTime - Start of the range (Unix timestamp in milliseconds, ISO string or Date)
+   * @param options.endTime - End of the range. Defaults to now
+   * @param options.periodicity - One value per 'hour', 'day', 'week', 'month', 'quarter' or 'year'. If null, one value for the whole range
+   * @param options.cycleTime - Wall-clock time ("HH:mm", in the instance timezone) at which periods start
+   * @param options.weekStart - First day of the week for weekly periods
+   * @param options.monthStart - First day of the month for monthly periods
+   * @param options.yearStart - First month of the year for yearly periods
+   * @param options.shifts - Shift definitions; values are aggregated per shift
+   * @param options.shiftOperator - Aggregation applied across shifts
+   * @param options.filter - Conditions a datapoint must meet to be included, combined with AND; sensors by ID or name
+   * @param options.dataPrecision - Number of decimal places in the result. Defaults to 2
+   * @param options.alias - Whether to return sensor names instead of IDs
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @returns Aggregated values with the following structure:
+   * ```typescript
+   * Array<{
+   *   time: string | number;   // Period start (ISO string or Unix timestamp based on unix option)
+   *   sensor: string;          // Sensor ID, or name if alias is true
+   *   value: number | null;    // Aggregated value of the filtered datapoints
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // Daily mean of D5 while the machine current (D3) is above 2 A
+   * const running = await dataAccess.getFilteredOperationData({
+   *   deviceId: 'DEVICE_001',
+   *   sensorList: ['D5'],
+   *   operator: 'mean',
+   *   startTime: '2024-05-01T00:00:00Z',
+   *   endTime: '2024-05-08T00:00:00Z',
+   *   periodicity: 'day',
+   *   filter: [{ sensor: 'D3', operator: '>', value: 2 }]
+   * });
+   *
+   * // Example output:
+   * // [
+   * //   { "time": "2024-05-01T00:00:00.000Z", "sensor": "D5", "value": 41.27 },
+   * //   { "time": "2024-05-02T00:00:00.000Z", "sensor": "D5", "value": 39.8 }
+   * // ]
+   * ```
+   *
+   * @throws InvalidTimeRangeError if the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if the device is not in the account
+   * @throws SensorNotFoundError if a requested or filter sensor ID or name does not exist on the device, listing close matches
+   * @throws ApiError if the API request fails or returns an error response
+   */
+  async getFilteredOperationData(options: GetFilteredOperationDataOptions): Promise<OperationDataRow[]> {
+    const {
+      deviceId,
+      sensorList = null,
+      operator = 'mean',
+      startTime = null,
+      endTime = null,
+      periodicity = null,
+      cycleTime,
+      weekStart,
+      monthStart,
+      yearStart,
+      shifts,
+      shiftOperator,
+      filter,
+      dataPrecision = 2,
+      alias = false,
+      unix = false,
+      onPrem = null,
+      signal,
+    } = options;
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = this.timeToUnix(startTime);
+      const endUnix = this.timeToUnix(endTime);
+
+      if (endUnix < startUnix) {
+        throw new InvalidTimeRangeError(startTime, endTime);
+      }
+
+      await this.validateDevice(deviceId, useOnPrem, signal);
+
+      const { metadata, sensorList: finalSensorList } = await this.resolveSensors(deviceId, sensorList, useOnPrem, signal);
+
+      // Build the API payload with the required parameters
+      const payload: any = {
+        userID: this.userId,
+        devID: deviceId,
+        sensorList: finalSensorList,
+        operator,
+        startTime: startUnix,
+        endTime: endUnix,
+        timezone: this.tz,
+        dataPrecision,
+      };
+
+      // Add periodicity and related parameters if specified
+      if (periodicity) {
+        Object.assign(payload, {
+          periodicity,
+          weekStart,
+          monthStart,
+          yearStart,
+        });
+      }
+
+      // Add cycle time to the payload if provided
+      if (cycleTime) {
+        payload.cycleTime = cycleTime;
+      }
+
+      // Add shift-related parameters if provided
+      if (shifts) {
+        Object.assign(payload, { shifts, shiftOperator });
+      }
+
+      if (filter) {
+        // Filter sensors are given by ID or name like sensorList
+        payload.filter = filter.map(condition => ({
+          ...condition,
+          sensor: resolveSensorIds([condition.sensor], metadata.sensors || [], deviceId)[0],
+        }));
+      }
+
+      const url = this.formatUrl(GET_FILTERED_OPERATION_DATA, useOnPrem);
+
+      const startReq = Date.now();
+      const response: AxiosResponse = await this.transport.put(url, payload, {
+        signal,
+        coalesce: true,
+      });
+      this.logger.debug('API response', { url, deviceId, durationMs: Date.now() - startReq });
+
+      const body = response.data;
+      if (!body || body.success === false || body.errors || body.data === undefined) {
+        throw new ApiError(`Unexpected response from ${url}`, {
+          url,
+          status: response.status,
+          body,
+        });
       }
-      return [];
+
+      // data is keyed by sensor ID, with either one value for the whole range
+      // or an object of period start -> value:
+      // { [sensor]: number | { [time]: number } }
+      const rawRows: any[] = [];
+      for (const [sensor, entry] of Object.entries<any>(body.data || {})) {
+        if (entry !== null && typeof entry === 'object') {
+          for (const [time, value] of Object.entries(entry)) {
+            rawRows.push({ time: this.timeToUnix(/^\d+$/.test(time) ? Number(time) : time), sensor, value });
+          }
+        } else {
+          rawRows.push({ time: startUnix, sensor, value: entry });
+        }
+      }
+
+      const cleaned = this.getCleanedTable({
+        data: rawRows,
+        alias,
+        cal: false,
+        deviceId: false,
+        onPrem: useOnPrem,
+        metadata,
+        pivotTable: false,
+      });
+
+      return cleaned.map((row: any) => {
+        const value = row.value === null || row.value === undefined ? NaN : parseFloat(row.value);
+        return {
+          time: unix ? row.time : new Date(row.time).toISOString(),
+          sensor: row.sensor,
+          value: isNaN(value) ? null : value,
+        };
+      });
+
+    } catch (err: any) {
+      this.logger.error('getFilteredOperationData failed', { deviceId, error: err });
+      return this.fail(err, []);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Fires a user trigger of the expression scheduler by its title, starting
+   * the workflow configured for it on the platform.
+   * @param options - Configuration options
+   * @param options.title - Title of the trigger, as configured on the platform
+   * @param options.payload - Data passed to the triggered workflow
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.signal - Optional AbortSignal to cancel in-flight requests
+   * @returns The run that was started, with the response body in `response`.
+   * `runId` is only set when the platform returns one
+   *
+   * @example
+   * ```typescript
+   * const run = await dataAccess.fireUserTrigger({
+   *   title: 'Defect rate above limit',
+   *   payload: { deviceId: 'IMM_11', defectRate: 0.042 }
+   * });
+   *
+   * // Example output:
+   * // { "runId": "665f1c...", "title": "Defect rate above limit", "status": "queued", "response": { ... } }
+   * ```
+   *
+   * The request is never retried, so a timeout cannot start the workflow twice.
+   * For the same reason a successful response is never turned into an error,
+   * even when it does not identify the run.
+   *
+   * @throws ValidationError if no title is given
+   * @throws ApiError if the API request fails or the response reports `success: false`
+   */
+  async fireUserTrigger(options: FireUserTriggerOptions): Promise<UserTriggerRun | null> {
+    const { title, payload = {}, onPrem = null, signal } = options;
+
+    try {
+      if (!title) {
+        throw new ValidationError("Trigger title is required");
+      }
+
+      const url = this.formatUrl(TRIGGER_URL, onPrem);
+
+      const startReq = Date.now();
+      const response: AxiosResponse = await this.transport.post(
+        url,
+        { title, payload },
+        { signal, maxRetries: 0 }
+      );
+      this.logger.debug('API response', { url, title, durationMs: Date.now() - startReq });
+
+      return this.toTriggerRun(url, response, title);
+
+    } catch (err: any) {
+      this.logger.error('fireUserTrigger failed', { title, error: err });
+      return this.fail(err, null);
+    }
+  }
+
+  /**
+   * Reads a trigger run from an expression scheduler response.
+   * @param url - The requested URL, for error reporting
+   * @param response - The API response
+   * @param title - Title of the fired trigger, if not present in the response
+   * @returns The normalised run; fields missing from the response are left out
+   * @throws ApiError if the response reports `success: false`
+   */
+  private toTriggerRun(url: string, response: AxiosResponse, title?: string): UserTriggerRun {
+    const body = response.data;
+    if (body?.success === false) {
+      throw new ApiError(`Unexpected response from ${url}`, {
+        url,
+        status: response.status,
+        body,
+      });
+    }
+
+    const data = body?.data ?? {};
+    const runId = data.runId ?? data.runID ?? data._id ?? data.id;
+    const run: UserTriggerRun = {
+      title: data.title ?? title,
+      status: data.status ?? 'queued',
+      response: body,
+    };
+    if (runId !== undefined && runId !== null) run.runId = String(runId);
+    if (data.result !== undefined) run.result = data.result;
+    if (data.error !== undefined) run.error = typeof data.error === 'string' ? data.error : JSON.stringify(data.error);
+    if (data.startedAt !== undefined) run.startedAt = data.startedAt;
+    if (data.finishedAt !== undefined) run.finishedAt = data.finishedAt;
+    return run;
+  }
+}
+
+// Every public call gets its own span, and its requests are numbered as pages
+traceMethods(
+  DataAccess,
+  [
+    'getUserInfo',
+    'getDeviceDetails',
+    'getDeviceMetaData',
+    'getFirstDp',
+    'getDp',
+    'getDpStream',
+    'dataQuery',
+    'dataQueryStream',
+    'multiDeviceQuery',
+    'getConsumption',
+    'getLoadEntities',
+    'getClusterData',
+    'getFilteredOperationData',
+    'fireUserTrigger'
+  ],
+  instance => instance['transport'].tracer,
+  { getDeviceMetaData: (deviceID: string) => deviceID }
+);
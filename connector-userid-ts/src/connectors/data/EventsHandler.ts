@@ -1,4 +1,3 @@
-import axios, { AxiosResponse } from 'axios';
 import {
   PUBLISH_EVENT_URL,
   GET_EVENTS_IN_TIMESLOT_URL,
@@ -10,19 +9,34 @@ import {
   GET_DEVICE_DATA,
   GET_SENSOR_ROWS,
   GET_DEVICE_METADATA_MONGO_URL,
-  Protocol,
   VERSION
 } from '../../utils/constants.js';
-import DataAccess from './DataAccess.js';
-import { start } from 'repl';
+import { BaseUrl, CaCertificates, HttpTransport, formatUrl, resolveBaseUrl } from '../../utils/transport.js';
+import {
+  ApiError,
+  InvalidTimeRangeError,
+  ValidationError
+} from '../../utils/errors.js';
+import { Logger, resolveLogger } from '../../utils/logger.js';
+import { AuthProvider, createUserIdAuth } from '../../utils/auth.js';
+import { traceMethods } from '../../utils/telemetry.js';
+import { parseTime } from '../../utils/time.js';
 
 // Type definitions for EventsHandler
 export interface EventsHandlerConfig {
   userId: string;
   dataUrl: string;
   onPrem?: boolean;
+  baseUrl?: BaseUrl;
   tz?: string;
+  /** @deprecated Pass a `logger` instead; timings are logged at debug level. */
   logTime?: boolean;
+  transport?: HttpTransport;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  auth?: AuthProvider;
+  legacyErrors?: boolean;
+  logger?: Logger;
 }
 
 export interface PublishEventOptions {
@@ -34,18 +48,21 @@ export interface PublishEventOptions {
   eventNamesList?: string[];
   title?: string;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface EventsInTimeslotOptions {
   startTime: string | Date;
   endTime?: string | Date;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface EventDataCountOptions {
   endTime?: string | Date;
   count?: number;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface DetailedEventOptions {
@@ -53,6 +70,7 @@ export interface DetailedEventOptions {
   startTime?: string | Date;
   endTime?: string | Date;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface MongoDataOptions {
@@ -61,6 +79,7 @@ export interface MongoDataOptions {
   startTime?: string;
   endTime?: string;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface MaintenanceModuleDataOptions {
@@ -80,6 +99,7 @@ export interface MaintenanceModuleDataOptions {
   shiftOperator?: 'sum' | 'mean' | 'median' | 'mode' | 'min' | 'max';
   filter?: Record<string, any>;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface DeviceDataOptions {
@@ -88,6 +108,7 @@ export interface DeviceDataOptions {
   endTime?: string;
   startTime?: string;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface SensorRowsOptions {
@@ -98,11 +119,13 @@ export interface SensorRowsOptions {
   startTime?: string;
   alias?: boolean;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface CreateMongoRowsOptions {
   data: any; // Dynamic JSON data provided by end users
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface EventCategory {
@@ -120,16 +143,26 @@ export default class EventsHandler {
   private userId: string;
   private dataUrl: string;
   private onPrem: boolean;
+  private baseUrl?: string;
   private tz: string;
-  private logTime: boolean;
+  private transport: HttpTransport;
+  private legacyErrors: boolean;
+  private logger: Logger;
   public readonly version: string = VERSION;
 
   constructor({
     userId,
     dataUrl,
     onPrem = false,
+    baseUrl,
     tz = 'UTC',
-    logTime = false
+    logTime = false,
+    transport,
+    proxy,
+    ca,
+    auth = createUserIdAuth(userId),
+    legacyErrors = false,
+    logger
   }: EventsHandlerConfig) {
     /**
      * A class to handle event-related operations.
@@ -137,50 +170,45 @@ export default class EventsHandler {
      * @param userId - The user ID used for authentication and identification in requests
      * @param dataUrl - The URL or IP address of the third-party server from which event data is retrieved
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, the on-premises server is used; otherwise, the cloud server is used
+     * @param baseUrl - Full base URL of the API (protocol, host, port and path prefix). Overrides dataUrl and onPrem
      * @param tz - The timezone to use for time-related operations. If not provided, defaults to UTC
-     * @param logTime - Whether to log API response times
+     * @param logTime - Deprecated. Logs API response times to the console when no logger is given
+     * @param transport - Shared HTTP transport (timeouts, retries, cancellation). Defaults to a new HttpTransport
+     * @param proxy - HTTP(S) proxy URL for the default transport, or false to ignore the HTTP(S)_PROXY variables
+     * @param ca - Extra trusted CA certificates (PEM) for the default transport
+     * @param auth - Credentials sent with every request. Defaults to the `userID` header
+     * @param legacyErrors - Log failures and return empty results instead of throwing. Defaults to false
+     * @param logger - Receives diagnostic output such as response times and failures. Defaults to a silent logger
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
+    this.baseUrl = baseUrl === undefined ? undefined : resolveBaseUrl(baseUrl);
     this.tz = tz;
-    this.logTime = logTime;
+    this.logger = resolveLogger(logger, logTime);
+    this.transport = (transport ?? new HttpTransport({ logger: this.logger, proxy, ca })).withAuth(auth);
+    this.legacyErrors = legacyErrors;
   }
 
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
+  private fail<T>(error: unknown, fallback: T): T {
+    /**
+     * Rethrows an error, or returns the fallback value in legacy error mode.
+     */
+    if (this.legacyErrors) return fallback;
+    throw error;
   }
 
   private isoUtcTime(time?: string | Date): string {
     /**
      * Converts a given time to an ISO 8601 formatted string in UTC.
+     * Naive strings are read in the instance timezone.
      * If no time is provided, the current time in UTC is used.
      */
-    if (time === undefined || time === null) {
-      return new Date().toISOString();
-    }
-
-    let dateTime: Date;
-    if (typeof time === 'string') {
-      dateTime = new Date(time);
-    } else {
-      dateTime = time;
-    }
-
-    // If the date is invalid, throw an error
-    if (isNaN(dateTime.getTime())) {
-      throw new Error(`Invalid date format: ${time}`);
-    }
-
-    return dateTime.toISOString();
+    return new Date(parseTime(time, this.tz)).toISOString();
   }
 
   private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
+    return formatUrl(template, this.dataUrl, onPrem ?? this.onPrem, this.baseUrl);
   }
 
   async publishEvent(options: PublishEventOptions): Promise<any> {
@@ -199,7 +227,8 @@ export default class EventsHandler {
         eventTagsList,
         eventNamesList,
         title,
-        onPrem
+        onPrem,
+        signal
       } = options;
 
       let finalEventTagsList = eventTagsList;
@@ -209,13 +238,13 @@ export default class EventsHandler {
         finalEventTagsList = [];
 
         // Fetch the available event categories from the server
-        const categories = await this.getEventCategories({ onPrem });
+        const categories = await this.getEventCategories({ onPrem, signal });
 
         // Iterate through each name in event_names_list to find its corresponding tag ID
         for (const tagName of eventNamesList) {
           const matched = categories.find((item: EventCategory) => item.name === tagName);
           if (!matched) {
-            throw new Error(`Tag '${tagName}' not found in data.`);
+            throw new ValidationError(`Tag '${tagName}' not found in data.`);
           }
           finalEventTagsList.push(matched._id);
         }
@@ -223,11 +252,10 @@ export default class EventsHandler {
 
       // Ensure that at least one tag is present in event_tags_list after processing
       if (!finalEventTagsList || finalEventTagsList.length === 0) {
-        throw new Error('No event tags found.');
+        throw new ValidationError('No event tags found.');
       }
 
       const url = this.formatUrl(PUBLISH_EVENT_URL, onPrem);
-      const headers = { userID: this.userId };
       const payload = {
         title: title || null,
         message,
@@ -238,26 +266,19 @@ export default class EventsHandler {
       };
 
       const startTime = Date.now();
-      const response = await axios.post(url, payload, { headers });
+      // Publishing is not idempotent, so it is never retried
+      const response = await this.transport.post(url, payload, { signal, maxRetries: 0 });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
+      this.logger.error('publishEvent failed', { error });
       throw error;
     }
   }
@@ -322,7 +343,7 @@ export default class EventsHandler {
      * - isRead: Read status
      */
     try {
-      const { startTime, endTime, onPrem } = options;
+      const { startTime, endTime, onPrem, signal } = options;
 
       // Convert start_time and end_time to iso utc timestamps
       const startTimeIso = this.isoUtcTime(startTime);
@@ -330,37 +351,26 @@ export default class EventsHandler {
 
       // Raise an error if end_time is before start_time
       if (new Date(endTimeIso) < new Date(startTimeIso)) {
-        throw new Error(
-          `Invalid time range: start_time(${startTimeIso}) should be before end_time(${endTimeIso}).`
-        );
+        throw new InvalidTimeRangeError(startTimeIso, endTimeIso);
       }
 
       const url = this.formatUrl(GET_EVENTS_IN_TIMESLOT_URL, onPrem);
-      const headers = { userID: this.userId };
       const payload = { startTime: startTimeIso, endTime: endTimeIso };
 
       const startTimeReq = Date.now();
-      const response = await axios.put(url, payload, { headers });
+      const response = await this.transport.put(url, payload, { signal, coalesce: true });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTimeReq) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTimeReq });
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return [];
+      this.logger.error('getEventsInTimeslot failed', { error });
+      return this.fail(error, []);
     }
   }
 
@@ -414,45 +424,36 @@ export default class EventsHandler {
      * - time: Formatted time of the event
      */
     try {
-      const { endTime, count = 10, onPrem } = options;
+      const { endTime, count = 10, onPrem, signal } = options;
 
       if (count > 10000) {
-        throw new Error('Count should be less than or equal to 10000.');
+        throw new ValidationError('Count should be less than or equal to 10000.');
       }
 
       // Convert end_time to iso utc timestamp
       const endTimeIso = this.isoUtcTime(endTime);
 
       const url = this.formatUrl(GET_EVENT_DATA_COUNT_URL, onPrem);
-      const headers = { userID: this.userId };
       const payload = { endTime: endTimeIso, count };
 
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { headers });
+      const response = await this.transport.put(url, payload, { signal, coalesce: true });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return [];
+      this.logger.error('getEventDataCount failed', { error });
+      return this.fail(error, []);
     }
   }
 
-  async getEventCategories(options: { onPrem?: boolean } = {}): Promise<EventCategory[]> {
+  async getEventCategories(options: { onPrem?: boolean; signal?: AbortSignal } = {}): Promise<EventCategory[]> {
     /**
      * Retrieve a list of event categories from the server.
      * 
@@ -498,33 +499,24 @@ export default class EventsHandler {
      * - description: Description of the event category
      */
     try {
-      const { onPrem } = options;
+      const { onPrem, signal } = options;
 
       const url = this.formatUrl(GET_EVENT_CATEGORIES_URL, onPrem);
-      const headers = { userID: this.userId };
 
       const startTime = Date.now();
-      const response = await axios.get(url, { headers });
+      const response = await this.transport.get(url, { signal });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return [];
+      this.logger.error('getEventCategories failed', { error });
+      return this.fail(error, []);
     }
   }
 
@@ -579,7 +571,7 @@ export default class EventsHandler {
      * Events are fetched in batches of 1000 records per page until all data is retrieved.
      */
     try {
-      const { eventTagsList, startTime, endTime, onPrem } = options;
+      const { eventTagsList, startTime, endTime, onPrem, signal } = options;
 
       // Convert start_time and end_time to iso utc timestamps
       const startTimeIso = this.isoUtcTime(startTime);
@@ -588,12 +580,11 @@ export default class EventsHandler {
       // If event_tags_list is not provided, fetch all event categories
       let finalEventTagsList = eventTagsList;
       if (!finalEventTagsList) {
-        const categories = await this.getEventCategories({ onPrem });
+        const categories = await this.getEventCategories({ onPrem, signal });
         finalEventTagsList = categories.map((category: EventCategory) => category._id);
       }
 
       const url = this.formatUrl(GET_DETAILED_EVENT_URL, onPrem);
-      const headers = { userID: this.userId };
       const payload = {
         startTime: startTimeIso,
         endTime: endTimeIso,
@@ -605,21 +596,18 @@ export default class EventsHandler {
 
       // Loop to fetch data until there is no more data to fetch
       while (true) {
-        console.log(`[INFO] Fetching Data from page ${page}`);
+        this.logger.debug('Fetching page', { url, page });
 
         const startTimeReq = Date.now();
-        const response = await axios.put(`${url}/${page}/1000`, payload, { headers });
+        const response = await this.transport.put(`${url}/${page}/1000`, payload, { signal, coalesce: true });
 
-        if (this.logTime) {
-          const duration = (Date.now() - startTimeReq) / 1000;
-          console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-        }
+        this.logger.debug('API response', { url, durationMs: Date.now() - startTimeReq });
 
         const responseData = response.data as ApiResponse;
 
         // Check for errors in the API response
         if (responseData.success === false) {
-          throw new Error('API response indicates failure');
+          throw new ApiError('API response indicates failure', { url, status: response.status, body: responseData });
         }
 
         const pageData = responseData.data?.data || [];
@@ -635,34 +623,23 @@ export default class EventsHandler {
       return rawData;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return [];
+      this.logger.error('getDetailedEvent failed', { error });
+      return this.fail(error, []);
     }
   }
 
-  private async getPaginatedData(url: string, payload: any, parallel: boolean): Promise<any> {
+  private async getPaginatedData(url: string, payload: any, parallel: boolean, signal?: AbortSignal): Promise<any> {
     /**
      * Sends a PUT request to the specified API endpoint and processes the response.
      */
     try {
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { 
-        headers: { userID: this.userId } 
+      const response = await this.transport.put(url, payload, { 
+        signal,
+        coalesce: true
       });
-  
-      // DEBUG: Log the actual response structure
-      console.log('Response structure:', JSON.stringify(response.data, null, 2));
 
-
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       // For device data endpoint, the structure is different
       if (url.includes('getRowsByDevices')) {
@@ -678,15 +655,10 @@ export default class EventsHandler {
         }
       }
 
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
+      this.logger.error('getPaginatedData failed', { error });
       throw error;
     }
   }
@@ -762,26 +734,17 @@ export default class EventsHandler {
         shifts,
         shiftOperator,
         filter,
-        onPrem
+        onPrem,
+        signal
       } = options;
 
-      // Create a DataAccess instance to convert times to Unix timestamps
-      const dataAccess = new DataAccess({
-        userId: this.userId,
-        dataUrl: this.dataUrl,
-        dsUrl: '', // Empty for this use case
-        tz: this.tz
-      });
-
       // Convert start_time and end_time to Unix timestamps
       const startTimeUnix = this.timeToUnix(startTime);
       const endTimeUnix = this.timeToUnix(endTime);
 
       // Validate that the start time is before the end time
       if (endTimeUnix < startTimeUnix) {
-        throw new Error(
-          `Invalid time range: start_time(${startTime}) should be before end_time(${endTime}).`
-        );
+        throw new InvalidTimeRangeError(startTime, endTime);
       }
 
       // Build the API payload with the required parameters
@@ -825,51 +788,28 @@ export default class EventsHandler {
       const url = this.formatUrl(GET_MAINTENANCE_MODULE_DATA, onPrem);
 
       const startTimeReq = Date.now();
-      const response = await axios.put(url, payload);
+      const response = await this.transport.put(url, payload, { signal, coalesce: true });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTimeReq) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTimeReq });
 
       if (response.data.errors) {
-        throw new Error('API response contains errors');
+        throw new ApiError('API response contains errors', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return {};
+      this.logger.error('getMaintenanceModuleData failed', { error });
+      return this.fail(error, {});
     }
   }
 
   private timeToUnix(time: string | number | Date | null = null): number {
     /**
-     * Convert time to Unix timestamp in milliseconds
+     * Convert time to Unix timestamp in milliseconds.
+     * Naive strings are read in the instance timezone.
      */
-    if (time === null || time === undefined) {
-      return Date.now();
-    }
-
-    if (typeof time === 'number') {
-      return time;
-    }
-
-    if (typeof time === 'string') {
-      return new Date(time).getTime();
-    }
-
-    if (time instanceof Date) {
-      return time.getTime();
-    }
-
-    throw new Error(`Invalid time format: ${time}`);
+    return parseTime(time, this.tz);
   }
 
   /**
@@ -934,7 +874,7 @@ export default class EventsHandler {
    */
   async getDeviceData(options: DeviceDataOptions = {}): Promise<any[]> {
     try {
-      const { devices, n = 5000, startTime, endTime, onPrem } = options;
+      const { devices, n = 5000, startTime, endTime, onPrem, signal } = options;
 
       const url = this.formatUrl(GET_DEVICE_DATA, onPrem);
       const payload: any = {
@@ -950,12 +890,12 @@ export default class EventsHandler {
       if (endTime) {
         payload.endTime = endTime;
       }
-      const data = await this.getPaginatedData(url, payload, false);
+      const data = await this.getPaginatedData(url, payload, false, signal);
       return data;
 
     } catch (error: any) {
-      console.error(`[EXCEPTION] ${error.message || error}`);
-      return [];
+      this.logger.error('getDeviceData failed', { error });
+      return this.fail(error, []);
     }
   }
 
@@ -1027,7 +967,7 @@ export default class EventsHandler {
    */
   async getSensorRows(options: SensorRowsOptions): Promise<any[]> {
     try {
-      const { deviceId, sensor, value, endTime, startTime, alias = false, onPrem } = options;
+      const { deviceId, sensor, value, endTime, startTime, alias = false, onPrem, signal } = options;
   
       const url = this.formatUrl(GET_SENSOR_ROWS, onPrem);
       
@@ -1049,41 +989,33 @@ export default class EventsHandler {
   
       // GET request logic (matching Python's requests.get)
       const requestStartTime = Date.now();
-      const response = await axios.get(url, { 
+      const response = await this.transport.get(url, { 
         params: params,  // Send as query parameters for GET
-        headers: { userID: this.userId } 
+        signal
       });
   
-      if (this.logTime) {
-        const duration = (Date.now() - requestStartTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - requestStartTime });
   
       const responseData = response.data;
       if (responseData && responseData.data) {
         return responseData.data;  // Python expects response.data
       }
   
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { url, status: response.status, body: responseData });
   
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      console.error(`[EXCEPTION] ${error.message || error}`);
-      return [];
+      this.logger.error('getSensorRows failed', { error });
+      return this.fail(error, []);
     }
   }
 
-  async getDeviceMetadata(deviceId: string, onPrem?: boolean): Promise<Record<string, any>> {
+  async getDeviceMetadata(deviceId: string, onPrem?: boolean, signal?: AbortSignal): Promise<Record<string, any>> {
     /**
      * Fetches metadata for a specific device.
      *
      * @param deviceId - The device identifier
      * @param onPrem - Optional flag for on-premises server usage
+     * @param signal - Optional AbortSignal to cancel the request
      * @returns An object where each key is a sensor/data channel (e.g., D0, D1, Status, RSSI),
      *          and the value is an array of objects describing the variable and its display label.
      *
@@ -1129,29 +1061,40 @@ export default class EventsHandler {
       const url = this.formatUrl(GET_DEVICE_METADATA_MONGO_URL, onPrem);
 
       const startTime = Date.now();
-      const response = await axios.get(`${url}/${this.userId}`, {
-        params: { devID: deviceId }
+      const response = await this.transport.get(`${url}/${this.userId}`, {
+        params: { devID: deviceId },
+        signal
       });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return {};
+      this.logger.error('getDeviceMetadata failed', { error });
+      return this.fail(error, {});
     }
   }
-}
\ No newline at end of file
+}
+
+// Every public call gets its own span, and its requests are numbered as pages
+traceMethods(
+  EventsHandler,
+  [
+    'publishEvent',
+    'getEventsInTimeslot',
+    'getEventDataCount',
+    'getEventCategories',
+    'getDetailedEvent',
+    'getMaintenanceModuleData',
+    'getDeviceData',
+    'getSensorRows',
+    'getDeviceMetadata'
+  ],
+  instance => instance['transport'].tracer,
+  { getDeviceMetadata: (deviceId: string) => deviceId }
+);
@@ -1,18 +1,30 @@
-import axios, { AxiosResponse } from 'axios';
 import {
   GET_MONGO_DATA,
   CREATE_MONGO_ROWS_URL,
-  Protocol,
   VERSION
 } from '../../utils/constants.js';
+import { BaseUrl, CaCertificates, HttpTransport, formatUrl, resolveBaseUrl } from '../../utils/transport.js';
+import { ApiError } from '../../utils/errors.js';
+import { Logger, resolveLogger } from '../../utils/logger.js';
+import { AuthProvider, createUserIdAuth } from '../../utils/auth.js';
+import { traceMethods } from '../../utils/telemetry.js';
+import { formatLocalTime, parseTime } from '../../utils/time.js';
 
 // Type definitions for MachineTimeline
 export interface MachineTimelineConfig {
   userId: string;
   dataUrl: string;
   onPrem?: boolean;
+  baseUrl?: BaseUrl;
   tz?: string;
+  /** @deprecated Pass a `logger` instead; timings are logged at debug level. */
   logTime?: boolean;
+  transport?: HttpTransport;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  auth?: AuthProvider;
+  legacyErrors?: boolean;
+  logger?: Logger;
 }
 
 export interface MongoDataOptions {
@@ -21,27 +33,39 @@ export interface MongoDataOptions {
   startTime?: string;
   endTime?: string;
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export interface CreateMongoRowsOptions {
   data: any; // Dynamic JSON data provided by end users
   onPrem?: boolean;
+  signal?: AbortSignal;
 }
 
 export default class MachineTimeline {
   private userId: string;
   private dataUrl: string;
   private onPrem: boolean;
+  private baseUrl?: string;
   private tz: string;
-  private logTime: boolean;
+  private transport: HttpTransport;
+  private legacyErrors: boolean;
+  private logger: Logger;
   public readonly version: string = VERSION;
 
   constructor({
     userId,
     dataUrl,
     onPrem = false,
+    baseUrl,
     tz = 'UTC',
-    logTime = false
+    logTime = false,
+    transport,
+    proxy,
+    ca,
+    auth = createUserIdAuth(userId),
+    legacyErrors = false,
+    logger
   }: MachineTimelineConfig) {
     /**
      * A class to handle machine timeline and MongoDB data operations.
@@ -49,26 +73,36 @@ export default class MachineTimeline {
      * @param userId - The user ID used for authentication and identification in requests
      * @param dataUrl - The URL or IP address of the third-party server from which data is retrieved
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, the on-premises server is used; otherwise, the cloud server is used
+     * @param baseUrl - Full base URL of the API (protocol, host, port and path prefix). Overrides dataUrl and onPrem
      * @param tz - The timezone to use for time-related operations. If not provided, defaults to UTC
-     * @param logTime - Whether to log API response times
+     * @param logTime - Deprecated. Logs API response times to the console when no logger is given
+     * @param transport - Shared HTTP transport (timeouts, retries, cancellation). Defaults to a new HttpTransport
+     * @param proxy - HTTP(S) proxy URL for the default transport, or false to ignore the HTTP(S)_PROXY variables
+     * @param ca - Extra trusted CA certificates (PEM) for the default transport
+     * @param auth - Credentials sent with every request. Defaults to the `userID` header
+     * @param legacyErrors - Log failures and return empty results instead of throwing. Defaults to false
+     * @param logger - Receives diagnostic output such as response times and timezone conversions. Defaults to a silent logger
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
+    this.baseUrl = baseUrl === undefined ? undefined : resolveBaseUrl(baseUrl);
     this.tz = tz;
-    this.logTime = logTime;
+    this.logger = resolveLogger(logger, logTime);
+    this.transport = (transport ?? new HttpTransport({ logger: this.logger, proxy, ca })).withAuth(auth);
+    this.legacyErrors = legacyErrors;
   }
 
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
+  private fail<T>(error: unknown, fallback: T): T {
+    /**
+     * Rethrows an error, or returns the fallback value in legacy error mode.
+     */
+    if (this.legacyErrors) return fallback;
+    throw error;
   }
 
   private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
+    return formatUrl(template, this.dataUrl, onPrem ?? this.onPrem, this.baseUrl);
   }
 
   private convertToIST(dateInput: string | Date | null, userTimezone: string = this.tz): string {
@@ -76,103 +110,16 @@ export default class MachineTimeline {
      * Converts a date/time from user's timezone to IST (Asia/Kolkata) format required by the API.
      * 
      * @param dateInput - Date string, Date object, or null (uses current time)
-     * @param userTimezone - The timezone of the input date (defaults to instance timezone)
+     * @param userTimezone - The timezone naive date strings are read in (defaults to instance timezone)
      * @returns Formatted date string in IST timezone (YYYY-MM-DD HH:mm:ss)
      */
     try {
-      let inputDate: Date;
-
-      if (dateInput === null || dateInput === undefined) {
-        inputDate = new Date();
-      } else if (typeof dateInput === 'string') {
-        // Parse the string date assuming it's in the user's timezone
-        inputDate = new Date(dateInput);
-      } else {
-        inputDate = dateInput;
-      }
-
-      // If the date is invalid, throw an error
-      if (isNaN(inputDate.getTime())) {
-        throw new Error(`Invalid date format: ${dateInput}`);
-      }
-
-      // Convert to IST using Intl.DateTimeFormat
-      const istOptions: Intl.DateTimeFormatOptions = {
-        timeZone: 'Asia/Kolkata',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      };
-
-      // If input timezone is not UTC and not IST, we need to handle it properly
-      if (userTimezone !== 'UTC' && userTimezone !== 'Asia/Kolkata' && typeof dateInput === 'string') {
-        // Create a date object considering the user's timezone
-        const userOptions: Intl.DateTimeFormatOptions = {
-          timeZone: userTimezone,
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-          hour12: false
-        };
-        
-        // Parse the date string as if it's in the user's timezone
-        const dateParts = dateInput.match(/(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})/);
-        if (dateParts) {
-          const [, year, month, day, hour, minute, second] = dateParts;
-          
-          // Create a date object in the user's timezone
-          const userDate = new Date();
-          userDate.setFullYear(parseInt(year), parseInt(month) - 1, parseInt(day));
-          userDate.setHours(parseInt(hour), parseInt(minute), parseInt(second), 0);
-          
-          // Get the offset difference between user timezone and UTC
-          const userOffset = this.getTimezoneOffset(userTimezone, userDate);
-          const utcTime = userDate.getTime() - (userOffset * 60000);
-          inputDate = new Date(utcTime);
-        }
-      }
-
-      // Format the date in IST
-      const formatter = new Intl.DateTimeFormat('sv-SE', istOptions);
-      const formattedDate = formatter.format(inputDate);
-      
-      // Convert from ISO format (YYYY-MM-DD HH:mm:ss) to required format
-      return formattedDate.replace('T', ' ');
+      return formatLocalTime(parseTime(dateInput, userTimezone), 'Asia/Kolkata');
 
     } catch (error: any) {
-      console.error(`[TIMEZONE CONVERSION ERROR] ${error.message}`);
+      this.logger.error('Timezone conversion failed, using current time', { time: dateInput, error });
       // Fallback: return current time in IST format
-      const now = new Date();
-      return now.toLocaleString('sv-SE', { 
-        timeZone: 'Asia/Kolkata',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      }).replace('T', ' ');
-    }
-  }
-
-  private getTimezoneOffset(timezone: string, date: Date): number {
-    /**
-     * Get timezone offset in minutes for a given timezone and date
-     */
-    try {
-      const utcDate = new Date(date.toLocaleString('sv-SE', { timeZone: 'UTC' }));
-      const timezoneDate = new Date(date.toLocaleString('sv-SE', { timeZone: timezone }));
-      return (timezoneDate.getTime() - utcDate.getTime()) / (1000 * 60);
-    } catch (error) {
-      console.warn(`[TIMEZONE OFFSET WARNING] Could not calculate offset for ${timezone}, using 0`);
-      return 0;
+      return formatLocalTime(Date.now(), 'Asia/Kolkata');
     }
   }
 
@@ -196,9 +143,7 @@ export default class MachineTimeline {
         const originalD0 = processedRow.data.D0;
         processedRow.data.D0 = this.convertToIST(originalD0, this.tz);
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] D0: ${originalD0} (${this.tz}) -> ${processedRow.data.D0} (IST)`);
-        }
+        this.logger.debug('Converted time to IST', { field: 'D0', from: originalD0, to: processedRow.data.D0, tz: this.tz });
       }
 
       // Convert any other timestamp fields that might be in the data
@@ -209,9 +154,7 @@ export default class MachineTimeline {
           const originalValue = value;
           processedRow.data[key] = this.convertToIST(originalValue, this.tz);
           
-          if (this.logTime) {
-            console.log(`[TIMEZONE CONVERSION] ${key}: ${originalValue} (${this.tz}) -> ${processedRow.data[key]} (IST)`);
-          }
+          this.logger.debug('Converted time to IST', { field: key, from: originalValue, to: processedRow.data[key], tz: this.tz });
         }
       });
 
@@ -221,20 +164,18 @@ export default class MachineTimeline {
     return processedData;
   }
 
-  private async getPaginatedData(url: string, payload: any, parallel: boolean): Promise<any> {
+  private async getPaginatedData(url: string, payload: any, parallel: boolean, signal?: AbortSignal): Promise<any> {
     /**
      * Sends a PUT request to the specified API endpoint and processes the response.
      */
     try {
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { 
-        headers: { userID: this.userId } 
+      const response = await this.transport.put(url, payload, { 
+        signal,
+        coalesce: true
       });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       const data = response.data.data;
 
@@ -242,15 +183,10 @@ export default class MachineTimeline {
         return parallel ? (data.rows || {}) : data;
       }
 
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { url, status: response.status, body: response.data });
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
+      this.logger.error('getPaginatedData failed', { error });
       throw error;
     }
   }
@@ -303,7 +239,7 @@ export default class MachineTimeline {
      * ```
      */
     try {
-      const { devID, limit, startTime, endTime, onPrem } = options;
+      const { devID, limit, startTime, endTime, onPrem, signal } = options;
 
       const url = this.formatUrl(GET_MONGO_DATA, onPrem);
       
@@ -317,25 +253,21 @@ export default class MachineTimeline {
         const istStartTime = this.convertToIST(startTime, this.tz);
         payload.startTime = istStartTime;
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] startTime: ${startTime} (${this.tz}) -> ${istStartTime} (IST)`);
-        }
+        this.logger.debug('Converted time to IST', { field: 'startTime', from: startTime, to: istStartTime, tz: this.tz });
       }
 
       if (endTime) {
         const istEndTime = this.convertToIST(endTime, this.tz);
         payload.endTime = istEndTime;
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] endTime: ${endTime} (${this.tz}) -> ${istEndTime} (IST)`);
-        }
+        this.logger.debug('Converted time to IST', { field: 'endTime', from: endTime, to: istEndTime, tz: this.tz });
       }
 
-      return await this.getPaginatedData(url, payload, false);
+      return await this.getPaginatedData(url, payload, false, signal);
 
     } catch (error: any) {
-      console.error(`[EXCEPTION] ${error.message || error}`);
-      return [];
+      this.logger.error('getMongoData failed', { error });
+      return this.fail(error, []);
     }
   }
 
@@ -383,32 +315,31 @@ export default class MachineTimeline {
      * ```
      */
     try {
-      const { data, onPrem } = options;
+      const { data, onPrem, signal } = options;
 
       // Process data to convert timestamps to IST
       const processedData = this.processDataForInsertion(data);
 
       const url = this.formatUrl(CREATE_MONGO_ROWS_URL, onPrem);
-      const headers = { userID: this.userId };
 
       const startTime = Date.now();
-      const response = await axios.put(url, processedData, { headers });
+      // Row creation is not idempotent, so it is never retried
+      const response = await this.transport.put(url, processedData, { signal, maxRetries: 0 });
 
-      if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
-      }
+      this.logger.debug('API response', { url, durationMs: Date.now() - startTime });
 
       return { success: response.data.success || false };
 
     } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
-      } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
-      }
-      return { success: false };
+      this.logger.error('createMongoData failed', { error });
+      return this.fail(error, { success: false });
     }
   }
 }
+
+// Every public call gets its own span, and its requests are numbered as pages
+traceMethods(
+  MachineTimeline,
+  ['getMongoData', 'createMongoData'],
+  instance => instance['transport'].tracer
+);
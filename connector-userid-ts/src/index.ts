@@ -1,11 +1,39 @@
 // Main entry point for connector-userid-ts module
+export { default as IosenseClient } from './IosenseClient.js';
 export { default as EventsHandler } from './connectors/data/EventsHandler.js';
 export { default as MachineTimeline } from './connectors/data/MachineTimeline.js';
 export { MqttConnector } from './connectors/pubsub/mqttHandler.js';
 export { default as BruceHandler } from './connectors/data/BruceHandler.js';
 export { default as DataAccess } from './connectors/data/DataAccess.js';
+export { HttpTransport, resolveBaseUrl } from './utils/transport.js';
+export {
+  IosenseError,
+  ApiError,
+  MaxRetriesExceededError,
+  DeviceNotFoundError,
+  InvalidTimeRangeError,
+  ValidationError,
+  SensorNotFoundError,
+  AuthenticationError,
+  ConfigError
+} from './utils/errors.js';
+export { silentLogger, createConsoleLogger } from './utils/logger.js';
+export { MemoryCacheStore } from './utils/cache.js';
+export { periodBuckets } from './utils/periods.js';
+export { resample } from './utils/resample.js';
+export { parseTime, formatTime } from './utils/time.js';
+export { CalibrationRegistry } from './utils/calibration.js';
+export { dataQualityReport } from './utils/quality.js';
+export { writeCsv, writeNdjson, writeParquet } from './utils/export.js';
+export { resolveSensorIds } from './utils/sensors.js';
+export { createUserIdAuth, createBearerTokenAuth, createHeaderAuth } from './utils/auth.js';
+export { loadProfile, validateProfile, profileConnection } from './utils/config.js';
+export { createOpenTelemetryTracer } from './utils/telemetry.js';
 
 // Export all types and interfaces
+export type { IosenseClientConfig, ServiceBaseUrls } from './IosenseClient.js';
+export type { MqttConfig, DevicePayload } from './connectors/pubsub/mqttHandler.js';
+
 export type {
   DataAccessConfig,
   ApiResponse,
@@ -24,7 +52,23 @@ export type {
   CursorData,
   GetLoadEntitiesOptions,
   LoadEntity,
-  LoadEntitiesResponse
+  LoadEntitiesResponse,
+  GetConsumptionOptions,
+  ConsumptionRow,
+  GetClusterDataOptions,
+  ClusterDataRow,
+  ClusterOperator,
+  ClusterPeriodicity,
+  GetFilteredOperationDataOptions,
+  OperationDataRow,
+  OperationDataOperator,
+  OperationDataFilter,
+  OperationDataShift,
+  UserTriggerRun,
+  FireUserTriggerOptions,
+  DeviceQuery,
+  MultiDeviceFormat,
+  MultiDeviceQueryOptions
 } from './connectors/data/DataAccess.js';
 
 export type {
@@ -69,5 +113,92 @@ export type {
   FetchInsightResultsResponse
 } from './connectors/data/BruceHandler.js';
 
+export type {
+  TransportConfig,
+  RetryConfig,
+  TransportRequest,
+  TransportRequestOptions,
+  BaseUrl,
+  BaseUrlOptions,
+  CaCertificates
+} from './utils/transport.js';
+
+export type { ApiErrorDetails, ConfigErrorDetails } from './utils/errors.js';
+
+export type { Logger, LogLevel, LogFields } from './utils/logger.js';
+
+export type { CacheStore } from './utils/cache.js';
+
+export type {
+  Period,
+  ShiftDefinition,
+  PeriodOptions,
+  PeriodBucket
+} from './utils/periods.js';
+
+export type {
+  ResampleInterval,
+  AggregationFunction,
+  ResampleOptions
+} from './utils/resample.js';
+
+export type { TimeFormat } from './utils/time.js';
+
+export type {
+  CalibrationFunction,
+  CalibrationFactory,
+  CalibrationParam
+} from './utils/calibration.js';
+
+export type {
+  DataQualityOptions,
+  DataQualityReport,
+  SensorQualityReport,
+  QualityRange,
+  QualityGap,
+  QualityFlatline,
+  QualityOutOfRange,
+  QualityDuplicate,
+  QualityNonNumeric
+} from './utils/quality.js';
+
+export type {
+  RowSource,
+  ExportOptions,
+  CsvExportOptions,
+  ParquetExportOptions
+} from './utils/export.js';
+
+export type { SensorRef } from './utils/sensors.js';
+
+export type {
+  AuthProvider,
+  AuthHeaders,
+  BearerToken,
+  BearerTokenAuthOptions
+} from './utils/auth.js';
+
+export type {
+  ConnectionProfile,
+  LoadProfileOptions,
+  ProfileConnection
+} from './utils/config.js';
+
+export type {
+  TransportHooks,
+  RequestInfo,
+  ResponseInfo,
+  RetryInfo,
+  ErrorInfo,
+  Tracer,
+  TraceSpan,
+  SpanAttributes,
+  SpanAttributeValue,
+  OpenTelemetryApi,
+  OpenTelemetryTracer
+} from './utils/telemetry.js';
+
+export type { RateLimit, RateLimitConfig } from './utils/rateLimit.js';
+
 // Export constants and utilities
 export * from './utils/constants.js'; 
\ No newline at end of file
@@ -0,0 +1,699 @@
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFile, writeFile } from 'node:fs/promises';
+import { ValidationError } from '../utils/errors.js';
+
+// Type definitions for the mock IoSense server
+export type MockServerMode = 'mock' | 'record' | 'replay';
+
+export interface MockDataPoint {
+  time: string | number;
+  sensor: string;
+  value: any;
+}
+
+export interface MockDataset {
+  user?: Record<string, any>;
+  metadata?: Record<string, Record<string, any>>;
+  data?: Record<string, MockDataPoint[]>;
+  events?: any[];
+  eventCategories?: any[];
+  tableRows?: any[];
+  insights?: any[];
+  sourceInsights?: Record<string, any>;
+  insightResults?: Record<string, any[]>;
+  clusters?: any[];
+  clusterData?: Record<string, any>;
+}
+
+export interface MockServerOptions {
+  mode?: MockServerMode;
+  dataset?: MockDataset;
+  userId?: string;
+  token?: string;
+  pageSize?: number;
+  fixtureFile?: string;
+  target?: string;
+  port?: number;
+  pathPrefix?: string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface MockFailure {
+  status?: number;
+  body?: any;
+  times?: number;
+}
+
+export interface FixtureEntry {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  status: number;
+  response: any;
+}
+
+interface MockResponse {
+  status: number;
+  body: any;
+}
+
+type Route = (
+  request: MockRequest,
+  params: string[]
+) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  route: Route;
+}
+
+const ok = (data: any): MockResponse => ({
+  status: 200,
+  body: { success: true, data },
+});
+
+const notFound = (message: string): MockResponse => ({
+  status: 404,
+  body: { success: false, message },
+});
+
+const toEpoch = (time: string | number): number =>
+  typeof time === 'number' ? time : Date.parse(time);
+
+/**
+ * Local stand-in for the IoSense data service, for tests and offline
+ * development.
+ *
+ * - `mock` (default) serves the endpoints of constants.ts from an in-memory
+ *   dataset: user info, device list and metadata, getAllData with cursor
+ *   paging, getDp/getFirstDp, getStartEndDPV2, load entities and their
+ *   aggregated data, eventTag, table rows and Bruce insights.
+ * - `record` forwards every request to `target` and keeps the responses;
+ *   `stop()` writes them to `fixtureFile`. Request headers, which carry the
+ *   user ID or tokens, are forwarded but never recorded.
+ * - `replay` answers from a recorded `fixtureFile`, matching on method, path,
+ *   query and body. Identical requests are answered in recorded order.
+ *
+ * Every request is logged in `requests`, and `fail()` injects error
+ * responses to exercise retries. With `userId` set, requests without that
+ * `userID` header are answered with 401; with `token` set, requests without
+ * `Authorization: Bearer <token>` are. Assign `token` to rotate it. Point a
+ * connector at the server with `dataUrl: server.host` and `onPrem: true`
+ * (plain http), or with `baseUrl: server.url`. With `pathPrefix` set, as
+ * behind a reverse proxy, only paths under the prefix are served.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockIosenseServer({
+ *   dataset: {
+ *     metadata: { DEVICE_001: { sensors: [{ sensorId: 'D5', sensorName: 'Temp' }], params: {} } },
+ *     data: { DEVICE_001: [{ time: '2024-05-01T00:00:00Z', sensor: 'D5', value: '21.5' }] }
+ *   },
+ *   pageSize: 100
+ * });
+ * await server.start();
+ * const dataAccess = new DataAccess({ userId: 'u', dataUrl: server.host, dsUrl: server.host, onPrem: true });
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class MockIosenseServer {
+  readonly requests: MockRequest[] = [];
+  token: string | undefined;
+  private readonly mode: MockServerMode;
+  private readonly dataset: Required<MockDataset>;
+  private readonly options: MockServerOptions;
+  private readonly failures: Array<{
+    path: string | RegExp;
+    failure: MockFailure;
+  }> = [];
+  private readonly routes: MockRoute[];
+  private fixtures: FixtureEntry[] = [];
+  private readonly replayed = new Map<string, number>();
+  private server: Server | null = null;
+
+  constructor(options: MockServerOptions = {}) {
+    const { mode = 'mock', dataset = {} } = options;
+    if (mode === 'record' && !options.target) {
+      throw new ValidationError('Record mode requires a target URL');
+    }
+    if (mode !== 'mock' && !options.fixtureFile) {
+      throw new ValidationError(`${mode} mode requires a fixtureFile`);
+    }
+    this.options = options;
+    this.mode = mode;
+    this.token = options.token;
+    this.dataset = {
+      user: dataset.user ?? {
+        _id: options.userId ?? 'mock-user',
+        email: 'mock@example.com',
+        organisation: { _id: 'mock-org', orgID: 'MOCK', orgName: 'Mock' },
+      },
+      metadata: dataset.metadata ?? {},
+      data: dataset.data ?? {},
+      events: dataset.events ?? [],
+      eventCategories: dataset.eventCategories ?? [],
+      tableRows: dataset.tableRows ?? [],
+      insights: dataset.insights ?? [],
+      sourceInsights: dataset.sourceInsights ?? {},
+      insightResults: dataset.insightResults ?? {},
+      clusters: dataset.clusters ?? [],
+      clusterData: dataset.clusterData ?? {},
+    };
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * Host and port the server listens on, for the `dataUrl` option.
+   */
+  get host(): string {
+    if (!this.server) throw new ValidationError('Mock server is not started');
+    const { port } = this.server.address() as AddressInfo;
+    return `127.0.0.1:${port}`;
+  }
+
+  /**
+   * Base URL including the path prefix, for the `baseUrl` option.
+   */
+  get url(): string {
+    return `http://${this.host}${this.options.pathPrefix ?? ''}`;
+  }
+
+  /**
+   * Starts listening; in replay mode the fixture file is loaded first.
+   * @returns The host, as `host:port`
+   */
+  async start(): Promise<string> {
+    if (this.mode === 'replay') {
+      const text = await readFile(this.options.fixtureFile!, 'utf8');
+      this.fixtures = JSON.parse(text).entries ?? [];
+    }
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, {
+          status: 500,
+          body: { success: false, message: String(error?.message ?? error) },
+        });
+      });
+    });
+    await new Promise<void>(resolve =>
+      server.listen(this.options.port ?? 0, '127.0.0.1', resolve)
+    );
+    this.server = server;
+    return this.host;
+  }
+
+  /**
+   * Stops the server; in record mode the fixtures are written to disk.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    if (this.mode === 'record') {
+      await writeFile(
+        this.options.fixtureFile!,
+        JSON.stringify({ entries: this.fixtures }, null, 2) + '\n'
+      );
+    }
+  }
+
+  /**
+   * Answers the next matching requests with an error instead of the normal
+   * response.
+   * @param path - Path prefix (e.g. "/api/apiLayer/getAllData") or pattern
+   * @param failure - Status (default 503), body and number of requests to fail (default 1)
+   * @returns The server, for chaining
+   */
+  fail(path: string | RegExp, failure: MockFailure = {}): this {
+    this.failures.push({ path, failure: { ...failure } });
+    return this;
+  }
+
+  /**
+   * Requests received for a path prefix.
+   * @param path - Path prefix, e.g. "/api/apiLayer/getAllData"
+   */
+  requestsTo(path: string): MockRequest[] {
+    return this.requests.filter(request => request.path.startsWith(path));
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const prefix = this.options.pathPrefix ?? '';
+    if (!url.pathname.startsWith(prefix + '/')) {
+      req.resume();
+      return this.send(
+        res,
+        notFound(`Not under the path prefix ${prefix}: ${url.pathname}`)
+      );
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+
+    const request: MockRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname.slice(prefix.length),
+      query: Object.fromEntries(url.searchParams),
+      body: text ? JSON.parse(text) : null,
+      headers: req.headers,
+    };
+    this.requests.push(request);
+
+    const failure = this.takeFailure(request.path);
+    if (failure) {
+      return this.send(res, {
+        status: failure.status ?? 503,
+        body: failure.body ?? { success: false, message: 'Injected failure' },
+      });
+    }
+
+    if (this.mode === 'record') {
+      return this.send(res, await this.forward(request, url.search, text));
+    }
+    if (this.mode === 'replay') {
+      return this.send(res, this.replay(request));
+    }
+
+    if (!this.authorized(request)) {
+      return this.send(res, {
+        status: 401,
+        body: { success: false, message: 'Unauthorized' },
+      });
+    }
+
+    for (const { method, pattern, route } of this.routes) {
+      const match = method === request.method && pattern.exec(request.path);
+      if (match) {
+        return this.send(res, await route(request, match.slice(1)));
+      }
+    }
+    this.send(
+      res,
+      notFound(`Not implemented by the mock: ${request.method} ${request.path}`)
+    );
+  }
+
+  private authorized(request: MockRequest): boolean {
+    if (this.token !== undefined) {
+      return request.headers.authorization === `Bearer ${this.token}`;
+    }
+    const userId = this.options.userId;
+    return !userId || request.headers.userid === userId;
+  }
+
+  private send(res: ServerResponse, response: MockResponse): void {
+    res.writeHead(response.status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private takeFailure(path: string): MockFailure | null {
+    const index = this.failures.findIndex(({ path: match }) =>
+      typeof match === 'string' ? path.startsWith(match) : match.test(path)
+    );
+    if (index === -1) return null;
+    const { failure } = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this.failures.splice(index, 1);
+    return failure;
+  }
+
+  private async forward(
+    request: MockRequest,
+    search: string,
+    text: string
+  ): Promise<MockResponse> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (typeof value === 'string' && name !== 'host') headers[name] = value;
+    }
+    const response = await fetch(
+      this.options.target!.replace(/\/$/, '') + request.path + search,
+      {
+        method: request.method,
+        headers,
+        body: text && request.method !== 'GET' ? text : undefined,
+      }
+    );
+    const raw = await response.text();
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      body = raw;
+    }
+    this.fixtures.push({
+      method: request.method,
+      path: request.path,
+      query: request.query,
+      body: request.body,
+      status: response.status,
+      response: body,
+    });
+    return { status: response.status, body };
+  }
+
+  private replay(request: MockRequest): MockResponse {
+    const key = fixtureKey(request);
+    const matches = this.fixtures.filter(entry => fixtureKey(entry) === key);
+    if (matches.length === 0) {
+      return notFound(
+        `No fixture for ${request.method} ${request.path} ${JSON.stringify(request.query)}`
+      );
+    }
+    // Repeated requests (e.g. retries or re-polls) get the recorded
+    // responses in order, then the last one again
+    const count = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, count + 1);
+    const entry = matches[Math.min(count, matches.length - 1)];
+    return { status: entry.status, body: entry.response };
+  }
+
+  private buildRoutes(): MockRoute[] {
+    const data = this.dataset;
+    const pageSize = this.options.pageSize ?? Infinity;
+    const route = (
+      method: string,
+      pattern: RegExp,
+      handler: Route
+    ): MockRoute => ({
+      method,
+      pattern,
+      route: handler,
+    });
+
+    return [
+      route('GET', /^\/api\/metaData\/user$/, () => ok(data.user)),
+
+      route('GET', /^\/api\/metaData\/allDevices$/, () =>
+        ok(
+          Object.entries(data.metadata).map(([devID, metadata]) => ({
+            devID,
+            devTypeID: metadata.devTypeID ?? 'MOCK',
+          }))
+        )
+      ),
+
+      route('GET', /^\/api\/metaData\/device\/([^/]+)$/, (_, [deviceId]) => {
+        const metadata = data.metadata[decodeURIComponent(deviceId)];
+        return metadata
+          ? ok({ devID: deviceId, sensors: [], params: {}, ...metadata })
+          : notFound(`Device ${deviceId} not found`);
+      }),
+
+      // Cursor paging over a time range; pages never split a timestamp
+      route('GET', /^\/api\/apiLayer\/getAllData$/, ({ query }) => {
+        const sensors = (query.sensor ?? '').split(',');
+        const start = Number(query.sTime);
+        const end = Number(query.eTime);
+        const limit = Math.min(Number(query.limit) || Infinity, pageSize);
+        const rows = this.points(query.device, sensors).filter(point => {
+          const time = toEpoch(point.time);
+          return time >= start && time <= end;
+        });
+
+        let size = Math.min(limit, rows.length);
+        while (
+          size < rows.length &&
+          size > 0 &&
+          toEpoch(rows[size].time) === toEpoch(rows[size - 1].time)
+        ) {
+          size++;
+        }
+        const cursor =
+          size < rows.length
+            ? { start: toEpoch(rows[size].time), end }
+            : { start: null, end: null };
+        return {
+          status: 200,
+          body: { data: rows.slice(0, size), cursor },
+        };
+      }),
+
+      // Latest datapoints of one sensor up to eTime (seconds), newest first
+      route(
+        'GET',
+        /^\/api\/apiLayer\/getLimitedDataMultipleSensors\/?$/,
+        ({ query }) => {
+          const end = Number(query.eTime) * 1000;
+          const wanted = Number(query.lim) || 1;
+          const rows = this.points(query.device, [query.sensor])
+            .filter(point => toEpoch(point.time) <= end)
+            .reverse();
+          const page = rows.slice(0, Math.min(wanted, pageSize));
+          const remaining = wanted - page.length;
+          const cursor =
+            remaining > 0 && rows.length > page.length
+              ? {
+                  end:
+                    Math.ceil(toEpoch(page[page.length - 1].time) / 1000) - 1,
+                  limit: remaining,
+                }
+              : null;
+          return { status: 200, body: { data: page, cursor } };
+        }
+      ),
+
+      // First datapoint of each sensor at or after time (seconds)
+      route(
+        'GET',
+        /^\/api\/apiLayer\/getMultipleSensorsDPAfter$/,
+        ({ query }) => {
+          const start = Number(query.time) * 1000;
+          const first: Record<string, MockDataPoint[]> = {};
+          for (const sensor of (query.sensor ?? '').split(',')) {
+            const point = this.points(query.device, [sensor]).find(
+              p => toEpoch(p.time) >= start
+            );
+            if (point) first[sensor] = [point];
+          }
+          return { status: 200, body: [first] };
+        }
+      ),
+
+      // First and last datapoint of each sensor between sTime and eTime
+      route('GET', /^\/api\/apiLayer\/getStartEndDPV2$/, ({ query }) => {
+        const start = Number(query.sTime);
+        const end = Number(query.eTime);
+        const values: Record<string, any> = {};
+        for (const sensor of (query.sensor ?? '').split(',')) {
+          const rows = this.points(query.device, [sensor]).filter(point => {
+            const time = toEpoch(point.time);
+            return time >= start && time <= end;
+          });
+          values[sensor] = {
+            startDP: rows[0] ?? null,
+            endDP: rows[rows.length - 1] ?? null,
+          };
+        }
+        return ok(values);
+      }),
+
+      route(
+        'GET',
+        /^\/api\/metaData\/getAllClusterData\/[^/]+\/(\d+)\/(\d+)$/,
+        (_, [page, count]) => ({
+          status: 200,
+          body: {
+            data: paginate(
+              data.clusters,
+              Number(page),
+              Number(count),
+              pageSize
+            ),
+            totalCount: data.clusters.length,
+          },
+        })
+      ),
+
+      // Aggregated data is served as stored, keyed by cluster ID
+      route('PUT', /^\/api\/widget\/clusterData$/, ({ body }) => {
+        const result = data.clusterData[body?.clusterID];
+        return result === undefined
+          ? notFound(`Cluster ${body?.clusterID} not found`)
+          : ok(result);
+      }),
+
+      route('POST', /^\/api\/eventTag\/publishEvent$/, ({ body }) => {
+        const event = { _id: `event-${data.events.length + 1}`, ...body };
+        data.events.push(event);
+        return ok(event);
+      }),
+
+      route('PUT', /^\/api\/eventTag\/fetchEvents\/timeslot$/, ({ body }) =>
+        ok(this.eventsBetween(body.startTime, body.endTime))
+      ),
+
+      route('PUT', /^\/api\/eventTag\/fetchEvents\/count$/, ({ body }) =>
+        ok(
+          this.eventsBetween(null, body.endTime)
+            .reverse()
+            .slice(0, body.count ?? 10)
+        )
+      ),
+
+      route('GET', /^\/api\/eventTag$/, () => ok(data.eventCategories)),
+
+      route(
+        'PUT',
+        /^\/api\/eventTag\/eventLogger\/(\d+)\/(\d+)$/,
+        ({ body }, [page, count]) => {
+          const events = this.eventsBetween(
+            body.startTime,
+            body.endTime
+          ).filter(
+            event =>
+              !body.eventTags ||
+              (event.eventTags ?? []).some((tag: string) =>
+                body.eventTags.includes(tag)
+              )
+          );
+          return ok({
+            data: paginate(events, Number(page), Number(count), pageSize),
+            totalCount: events.length,
+          });
+        }
+      ),
+
+      route('PUT', /^\/api\/table\/getRows3$/, ({ body }) => {
+        let rows = data.tableRows.filter(row => row.devID === body.devID);
+        if (body.startTime) {
+          rows = rows.filter(row => (row.data?.D0 ?? '') >= body.startTime);
+        }
+        if (body.endTime) {
+          rows = rows.filter(row => (row.data?.D0 ?? '') <= body.endTime);
+        }
+        return ok(body.limit ? rows.slice(0, body.limit) : rows);
+      }),
+
+      route('PUT', /^\/api\/table\/createRows3$/, ({ body }) => {
+        data.tableRows.push(...(body?.rows ?? []));
+        return ok({ inserted: body?.rows?.length ?? 0 });
+      }),
+
+      route(
+        'PUT',
+        /^\/api\/bruce\/userInsight\/fetch\/paginated$/,
+        ({ body }) => {
+          const { page = 1, count = 1000 } = body?.pagination ?? {};
+          return ok({
+            data: paginate(data.insights, page, count, pageSize),
+            totalCount: data.insights.length,
+          });
+        }
+      ),
+
+      route(
+        'PUT',
+        /^\/api\/bruce\/userInsight\/fetch\/getSourceInsight\/([^/]+)$/,
+        (_, [insightId]) => {
+          const insight = data.sourceInsights[insightId];
+          return insight
+            ? ok(insight)
+            : notFound(`Insight ${insightId} not found`);
+        }
+      ),
+
+      route(
+        'PUT',
+        /^\/api\/bruce\/insightResult\/fetch\/paginated\/([^/]+)$/,
+        ({ body }, [insightId]) => {
+          const results = data.insightResults[insightId] ?? [];
+          const { page = 1, count = 50 } = body?.pagination ?? {};
+          return ok({
+            data: paginate(results, page, count, pageSize),
+            totalCount: results.length,
+            pagination: {
+              page,
+              count,
+              totalPages: Math.ceil(results.length / count),
+            },
+          });
+        }
+      ),
+    ];
+  }
+
+  /**
+   * Datapoints of a device for the given sensors, in time order.
+   */
+  private points(deviceId: string, sensors: string[]): MockDataPoint[] {
+    return (this.dataset.data[deviceId] ?? [])
+      .filter(point => sensors.includes(point.sensor))
+      .sort((a, b) => toEpoch(a.time) - toEpoch(b.time));
+  }
+
+  private eventsBetween(start: string | null, end: string | null): any[] {
+    return this.dataset.events
+      .filter(event => {
+        const time = Date.parse(event.createdOn);
+        return (
+          (!start || time >= Date.parse(start)) &&
+          (!end || time <= Date.parse(end))
+        );
+      })
+      .sort((a, b) => Date.parse(a.createdOn) - Date.parse(b.createdOn));
+  }
+}
+
+function paginate<T>(
+  items: T[],
+  page: number,
+  count: number,
+  pageSize: number
+): T[] {
+  const size = Math.min(count, pageSize);
+  return items.slice((page - 1) * size, page * size);
+}
+
+/**
+ * Key identifying a request for replay: method, path, and the query and body
+ * with sorted keys.
+ */
+function fixtureKey(request: {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}): string {
+  return JSON.stringify([
+    request.method,
+    request.path,
+    sortKeys(request.query),
+    sortKeys(request.body),
+  ]);
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,137 @@
+import { AuthenticationError } from './errors.js';
+
+// Type definitions for request authentication
+export type AuthHeaders = Record<string, string>;
+
+/**
+ * Supplies the credentials sent with every request.
+ *
+ * `headers()` is called before each attempt, so providers can rotate
+ * credentials between retries. When the platform answers 401 and the provider
+ * implements `refresh()`, the transport calls it once and repeats the request.
+ */
+export interface AuthProvider {
+  headers(): AuthHeaders | Promise<AuthHeaders>;
+  refresh?(): Promise<void>;
+}
+
+export interface BearerToken {
+  token: string;
+  expiresAt?: number | Date;
+}
+
+export interface BearerTokenAuthOptions {
+  token?: string;
+  expiresAt?: number | Date;
+  refresh?: () => Promise<string | BearerToken> | string | BearerToken;
+  refreshSkewMs?: number;
+  headerName?: string;
+}
+
+const DEFAULT_REFRESH_SKEW = 30000;
+
+/**
+ * Creates the provider used when none is configured: the `userID` header.
+ * @param userId - The user ID sent with every request
+ * @returns Auth provider
+ */
+export function createUserIdAuth(userId: string): AuthProvider {
+  return { headers: () => ({ userID: userId }) };
+}
+
+/**
+ * Creates a provider sending `Authorization: Bearer <token>`.
+ *
+ * With a `refresh` callback the token is fetched on first use when no
+ * `token` is given, renewed shortly before `expiresAt` (see `refreshSkewMs`,
+ * default 30 seconds) and renewed when a request is rejected with 401.
+ * Concurrent requests share one refresh call.
+ * @param options - Initial token and expiry, refresh callback, skew and header name (default "Authorization")
+ * @returns Auth provider
+ * @throws AuthenticationError from requests when no token is available or the refresh callback fails
+ *
+ * @example
+ * ```typescript
+ * const auth = createBearerTokenAuth({
+ *   refresh: async () => {
+ *     const { access_token, expires_in } = await login();
+ *     return { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+ *   }
+ * });
+ * const dataAccess = new DataAccess({ userId, dataUrl, dsUrl, auth });
+ * ```
+ */
+export function createBearerTokenAuth(
+  options: BearerTokenAuthOptions
+): AuthProvider {
+  const {
+    refresh,
+    refreshSkewMs = DEFAULT_REFRESH_SKEW,
+    headerName = 'Authorization',
+  } = options;
+  let current: BearerToken | null = options.token
+    ? { token: options.token, expiresAt: options.expiresAt }
+    : null;
+  let pending: Promise<void> | null = null;
+
+  const renew = (): Promise<void> => {
+    if (!refresh) {
+      return Promise.reject(
+        new AuthenticationError('No bearer token and no refresh callback')
+      );
+    }
+    // Requests that hit an expired token together wait on the same call
+    if (pending) return pending;
+    pending = (async () => {
+      try {
+        const result = await refresh();
+        current = typeof result === 'string' ? { token: result } : result;
+        if (!current?.token) {
+          throw new AuthenticationError('Token refresh returned no token');
+        }
+      } catch (error) {
+        current = null;
+        throw error instanceof AuthenticationError
+          ? error
+          : new AuthenticationError('Token refresh failed', { cause: error });
+      } finally {
+        pending = null;
+      }
+    })();
+    return pending;
+  };
+
+  const expiresSoon = (token: BearerToken): boolean =>
+    token.expiresAt !== undefined &&
+    new Date(token.expiresAt).getTime() - refreshSkewMs <= Date.now();
+
+  return {
+    headers: async () => {
+      if (!current || (refresh && expiresSoon(current))) await renew();
+      return { [headerName]: `Bearer ${current!.token}` };
+    },
+    refresh: refresh ? renew : undefined,
+  };
+}
+
+/**
+ * Creates a provider sending custom headers, such as an API key or the
+ * headers of a gateway in front of the platform.
+ * @param headers - Fixed headers, or a function returning them per request
+ * @param refresh - Optional callback invoked once when a request is rejected with 401
+ * @returns Auth provider
+ *
+ * @example
+ * ```typescript
+ * const auth = createHeaderAuth(() => ({ 'x-api-key': process.env.API_KEY!, userID: userId }));
+ * ```
+ */
+export function createHeaderAuth(
+  headers: AuthHeaders | (() => AuthHeaders | Promise<AuthHeaders>),
+  refresh?: () => Promise<void>
+): AuthProvider {
+  return {
+    headers: typeof headers === 'function' ? headers : () => ({ ...headers }),
+    refresh,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Storage backend for cached metadata.
+ *
+ * Methods may be synchronous or return promises, so the default in-memory
+ * store and shared stores such as Redis fit the same interface. Stores are
+ * responsible for honouring `ttlMs` and returning undefined for expired keys.
+ * `get` must return a copy of the stored value, as stores that serialise
+ * values do, so callers changing a result cannot change the cache.
+ */
+export interface CacheStore {
+  get<T = unknown>(key: string): T | undefined | Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /**
+   * Removes every key starting with `prefix`, or every key if omitted.
+   */
+  clear(prefix?: string): void | Promise<void>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Process-local CacheStore backed by a Map. Values are copied with
+ * structuredClone when stored and when read. Expired entries are dropped when
+ * they are read.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get<T = unknown>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value) as T;
+  }
+
+  set<T = unknown>(key: string, value: T, ttlMs: number): void {
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(prefix?: string): void {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { ValidationError } from './errors.js';
+
+// Type definitions for calibration
+export type CalibrationFunction = (value: number) => number;
+
+export interface CalibrationParam {
+  paramName: string;
+  paramValue: any;
+}
+
+/**
+ * Builds a calibration function from a sensor's metadata params, given as a
+ * map of param name to value. Returns null if the params do not describe
+ * this kind of calibration.
+ */
+export type CalibrationFactory = (
+  params: Record<string, any>
+) => CalibrationFunction | null;
+
+/**
+ * Parses a numeric param, returning undefined for missing or non-numeric
+ * values so that defaults only apply when a value is absent (m=0 stays 0).
+ */
+function toNumber(value: any): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseJson(text: string, name: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError(`Calibration param "${name}" is not valid JSON`);
+  }
+}
+
+/**
+ * Parses a list of numbers given as an array, a JSON array or a comma
+ * separated string.
+ */
+function toNumberList(value: any, name: string): number[] {
+  let list = value;
+  if (typeof list === 'string') {
+    const text = list.trim();
+    list = text.startsWith('[') ? parseJson(text, name) : text.split(',');
+  }
+  if (!Array.isArray(list)) {
+    throw new ValidationError(`Calibration param "${name}" must be a list`);
+  }
+  return list.map(item => {
+    const parsed = toNumber(item);
+    if (parsed === undefined) {
+      throw new ValidationError(
+        `Calibration param "${name}" contains a non-numeric value: ${item}`
+      );
+    }
+    return parsed;
+  });
+}
+
+/**
+ * value * m + c. Missing m defaults to 1 and missing c to 0.
+ */
+const linear: CalibrationFactory = params => {
+  const m = toNumber(params.m);
+  const c = toNumber(params.c);
+  if (m === undefined && c === undefined) return null;
+  return value => (m ?? 1) * value + (c ?? 0);
+};
+
+/**
+ * Polynomial with coefficients in ascending powers, from a `coefficients`
+ * list ("c0,c1,c2") or params a0, a1, ... an.
+ */
+const polynomial: CalibrationFactory = params => {
+  let coefficients: number[] = [];
+  if (params.coefficients !== undefined) {
+    coefficients = toNumberList(params.coefficients, 'coefficients');
+  } else {
+    for (let i = 0; params[`a${i}`] !== undefined; i++) {
+      const coefficient = toNumber(params[`a${i}`]);
+      if (coefficient === undefined) {
+        throw new ValidationError(`Calibration param "a${i}" is not numeric`);
+      }
+      coefficients.push(coefficient);
+    }
+  }
+  if (coefficients.length === 0) return null;
+  // Horner's method
+  return value =>
+    coefficients.reduceRight(
+      (total, coefficient) => total * value + coefficient,
+      0
+    );
+};
+
+/**
+ * Piecewise linear interpolation over a `table` of [raw, calibrated] points,
+ * given as pairs ("0:0,1.5:100") or a JSON array ("[[0,0],[1.5,100]]").
+ * Values outside the table take the value of the nearest end point.
+ */
+const lookup: CalibrationFactory = params => {
+  const table = params.table ?? params.lookup;
+  if (table === undefined) return null;
+
+  let points: Array<[number, number]>;
+  if (typeof table === 'string' && !table.trim().startsWith('[')) {
+    points = table.split(',').map(pair => {
+      const [x, y] = toNumberList(pair.replace(':', ','), 'table');
+      return [x, y];
+    });
+  } else {
+    const raw = typeof table === 'string' ? parseJson(table, 'table') : table;
+    if (!Array.isArray(raw)) {
+      throw new ValidationError('Calibration param "table" must be a list');
+    }
+    points = raw.map(point => {
+      const [x, y] = toNumberList(point, 'table');
+      return [x, y];
+    });
+  }
+  if (points.length === 0) {
+    throw new ValidationError('Calibration lookup table is empty');
+  }
+  points.sort((a, b) => a[0] - b[0]);
+
+  return value => {
+    if (value <= points[0][0]) return points[0][1];
+    const last = points[points.length - 1];
+    if (value >= last[0]) return last[1];
+    let i = 1;
+    while (points[i][0] < value) i++;
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    return x1 === x0 ? y1 : y0 + ((value - x0) * (y1 - y0)) / (x1 - x0);
+  };
+};
+
+// Built-in types tried in order when a sensor has no `calType` param
+const INFERRED_TYPES = ['lookup', 'polynomial', 'linear'];
+
+/**
+ * Resolves how each sensor's raw values are calibrated.
+ *
+ * A sensor uses, in order: a function set with `setSensor()`; the type named
+ * by its `calType` metadata param; or the first built-in type whose params
+ * are present (lookup `table`, polynomial `coefficients`/`a0..an`, linear
+ * `m`/`c`). `min` and `max` params clamp the calibrated value for every type.
+ *
+ * @example
+ * ```typescript
+ * const calibration = new CalibrationRegistry()
+ *   .setSensor('D7', raw => raw * 0.001 - 4)
+ *   .registerType('sqrt', params => value => Math.sqrt(value) * Number(params.k));
+ *
+ * const dataAccess = new DataAccess({ userId, dataUrl, dsUrl, calibration });
+ * ```
+ */
+export class CalibrationRegistry {
+  private readonly types = new Map<string, CalibrationFactory>([
+    ['lookup', lookup],
+    ['polynomial', polynomial],
+    ['linear', linear],
+  ]);
+  private readonly sensors = new Map<string, CalibrationFunction>();
+
+  /**
+   * Adds or replaces a calibration type, selected by a sensor's `calType` param.
+   * @param name - Type name, e.g. "sqrt"
+   * @param factory - Builds the calibration function from the sensor's params
+   * @returns The registry, for chaining
+   */
+  registerType(name: string, factory: CalibrationFactory): this {
+    this.types.set(name, factory);
+    return this;
+  }
+
+  /**
+   * Calibrates a sensor with a fixed function, regardless of its metadata.
+   * @param sensorId - Sensor ID
+   * @param fn - Calibration function, or null to fall back to metadata again
+   * @returns The registry, for chaining
+   */
+  setSensor(sensorId: string, fn: CalibrationFunction | null): this {
+    if (fn) this.sensors.set(sensorId, fn);
+    else this.sensors.delete(sensorId);
+    return this;
+  }
+
+  /**
+   * Builds the calibration function of a sensor.
+   * @param sensorId - Sensor ID
+   * @param params - The sensor's metadata params (`metadata.params[sensorId]`)
+   * @returns Calibration function including min/max clamping, or null if the sensor is not calibrated
+   * @throws ValidationError for an unknown `calType` or malformed params
+   */
+  resolve(
+    sensorId: string,
+    params: CalibrationParam[] = []
+  ): CalibrationFunction | null {
+    const values: Record<string, any> = {};
+    for (const param of params) values[param.paramName] = param.paramValue;
+
+    let fn: CalibrationFunction | null = this.sensors.get(sensorId) ?? null;
+    if (!fn && values.calType) {
+      const factory = this.types.get(values.calType);
+      if (!factory) {
+        throw new ValidationError(
+          `Unknown calibration type "${values.calType}" for sensor ${sensorId}`
+        );
+      }
+      fn = factory(values);
+    }
+    if (!fn) {
+      for (const name of INFERRED_TYPES) {
+        fn = this.types.get(name)?.(values) ?? null;
+        if (fn) break;
+      }
+    }
+
+    const min = toNumber(values.min);
+    const max = toNumber(values.max);
+    if (!fn && min === undefined && max === undefined) return null;
+
+    const calibrate = fn ?? ((value: number) => value);
+    return value => {
+      let calibrated = calibrate(value);
+      if (min !== undefined) calibrated = Math.max(calibrated, min);
+      if (max !== undefined) calibrated = Math.min(calibrated, max);
+      return calibrated;
+    };
+  }
+}
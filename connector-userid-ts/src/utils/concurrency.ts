@@ -0,0 +1,47 @@
+/**
+ * Runs `task` over `items` with at most `limit` tasks in flight and yields
+ * the results in input order.
+ *
+ * A finished task only frees its slot once every earlier result has been
+ * yielded, so at most `limit` results are held in memory. No new tasks are
+ * started after the consumer stops iterating or a task fails; tasks already
+ * in flight are left to settle (use an AbortSignal inside `task` to cancel
+ * them).
+ * @param items - Inputs, processed in order
+ * @param limit - Maximum number of concurrent tasks (at least 1)
+ * @param task - Async function applied to each item
+ * @returns Async iterable of the task results, in input order
+ *
+ * @example
+ * ```typescript
+ * for await (const rows of mapConcurrent(batches, 4, batch => fetchBatch(batch))) {
+ *   await sink.write(rows);
+ * }
+ * ```
+ */
+export async function* mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): AsyncGenerator<R, void, undefined> {
+  const size = Math.max(1, Math.floor(limit) || 1);
+  const running: Promise<R>[] = [];
+  let next = 0;
+
+  const startNext = (): void => {
+    const promise = task(items[next], next);
+    // Failures are rethrown when the promise is awaited in order; this only
+    // keeps an early failure from being reported as unhandled meanwhile.
+    promise.catch(() => undefined);
+    running.push(promise);
+    next++;
+  };
+
+  while (next < items.length && running.length < size) startNext();
+
+  while (running.length > 0) {
+    const result = await running.shift()!;
+    if (next < items.length) startNext();
+    yield result;
+  }
+}
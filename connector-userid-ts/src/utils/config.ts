@@ -0,0 +1,450 @@
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { extname, join } from 'node:path';
+import yaml from 'js-yaml';
+import { ConfigError } from './errors.js';
+import { AuthProvider, createBearerTokenAuth } from './auth.js';
+import { resolveBaseUrl } from './transport.js';
+import { RateLimitConfig } from './rateLimit.js';
+
+// Type definitions for connection profiles
+export interface ConnectionProfile {
+  userId: string;
+  dataUrl?: string;
+  dsUrl?: string;
+  onPrem?: boolean;
+  baseUrl?: string;
+  proxy?: string;
+  caFile?: string;
+  rateLimit?: number;
+  tz?: string;
+  token?: string;
+  mqtt?: {
+    broker: string;
+    port?: number;
+    username?: string;
+    password?: string;
+  };
+}
+
+export interface LoadProfileOptions {
+  profile?: string;
+  file?: string;
+  env?: NodeJS.ProcessEnv;
+  overrides?: Partial<ConnectionProfile>;
+}
+
+export interface ProfileConnection {
+  userId: string;
+  dataUrl: string;
+  dsUrl: string;
+  onPrem: boolean;
+  baseUrl?: string;
+  proxy?: string;
+  ca?: Buffer;
+  rateLimit?: RateLimitConfig;
+  tz?: string;
+  auth?: AuthProvider;
+  mqtt?: {
+    broker: string;
+    port: number;
+    username: string;
+    password: string;
+  };
+}
+
+type Settings = Record<string, unknown>;
+
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_CONFIG_FILES = [
+  'config.json',
+  'config.yaml',
+  'config.yml',
+].map(name => join(homedir(), '.iosense', name));
+
+// Setting name -> environment variable suffix
+const ENV_KEYS: Record<string, string> = {
+  userId: 'USER_ID',
+  dataUrl: 'DATA_URL',
+  dsUrl: 'DS_URL',
+  onPrem: 'ON_PREM',
+  baseUrl: 'BASE_URL',
+  proxy: 'PROXY',
+  caFile: 'CA_FILE',
+  rateLimit: 'RATE_LIMIT',
+  tz: 'TZ',
+  token: 'TOKEN',
+};
+
+const MQTT_ENV_KEYS: Record<string, string> = {
+  broker: 'MQTT_BROKER',
+  port: 'MQTT_PORT',
+  username: 'MQTT_USERNAME',
+  password: 'MQTT_PASSWORD',
+};
+
+const PROFILE_KEYS = [...Object.keys(ENV_KEYS), 'mqtt'];
+
+/**
+ * Resolves a named connection profile.
+ *
+ * The profile is picked with `profile`, `IOSENSE_PROFILE`, the `default` key
+ * of the file, or "default". Each setting is taken from the first source
+ * that has it:
+ * 1. `overrides` (e.g. command-line flags)
+ * 2. `IOSENSE_<PROFILE>_<SETTING>`, e.g. `IOSENSE_PLANT_A_DATA_URL` for "plant-a"
+ * 3. The profile in the file (`file`, `IOSENSE_CONFIG`, or the first of
+ *    ~/.iosense/config.json, config.yaml and config.yml that exists)
+ * 4. `IOSENSE_<SETTING>`, e.g. `IOSENSE_USER_ID`, for settings the profile
+ *    leaves out
+ *
+ * The file is JSON or YAML (by extension) shaped as
+ * `{ default?: name, profiles: { <name>: { userId, dataUrl, ... } } }`.
+ * A profile only needs to exist in the file when it was asked for by name
+ * and the environment does not supply it completely.
+ * @param options - Profile name, file, environment (default process.env) and overrides
+ * @returns The validated profile
+ * @throws ConfigError naming the file, profile and every invalid or missing setting
+ *
+ * @example
+ * ```typescript
+ * // ~/.iosense/config.yaml
+ * // default: cloud
+ * // profiles:
+ * //   cloud:   { userId: 645a..., dataUrl: datads.iosense.io, tz: Asia/Kolkata }
+ * //   plant-a: { userId: 645a..., baseUrl: "https://iosense.plant-a.local:8443/iosense", caFile: /etc/ssl/plant-a.pem }
+ * const profile = await loadProfile({ profile: 'plant-a' });
+ * const dataAccess = new DataAccess(profileConnection(profile));
+ * ```
+ */
+export async function loadProfile(
+  options: LoadProfileOptions = {}
+): Promise<ConnectionProfile> {
+  const env = options.env ?? process.env;
+  const file = await readConfigFile(options.file ?? env.IOSENSE_CONFIG);
+  const name =
+    options.profile ??
+    env.IOSENSE_PROFILE ??
+    (typeof file?.data.default === 'string' ? file.data.default : undefined) ??
+    DEFAULT_PROFILE;
+  const source = file?.path ?? 'environment';
+
+  const profiles = (file?.data.profiles ?? {}) as Record<string, unknown>;
+  const stored = profiles[name];
+  if (stored !== undefined && !isObject(stored)) {
+    throw new ConfigError(`Profile "${name}" in ${source} must be an object`, {
+      source,
+      profile: name,
+    });
+  }
+
+  const prefix = `IOSENSE_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_`;
+  const generic = envSettings(env, 'IOSENSE_');
+  const fromEnv = envSettings(env, prefix);
+  const merged: Settings = {
+    ...generic,
+    ...(stored as Settings | undefined),
+    ...fromEnv,
+    ...withoutUndefined(options.overrides ?? {}),
+  };
+  const mqtt = [
+    generic.mqtt,
+    (stored as Settings | undefined)?.mqtt,
+    fromEnv.mqtt,
+    options.overrides?.mqtt,
+  ].filter(Boolean);
+  if (mqtt.length > 1) {
+    merged.mqtt = Object.assign({}, ...mqtt);
+  }
+
+  if (
+    stored === undefined &&
+    (!merged.userId || !(merged.dataUrl || merged.baseUrl))
+  ) {
+    const available = Object.keys(profiles);
+    const explicit = options.profile ?? env.IOSENSE_PROFILE;
+    if (file && (explicit || available.length > 0)) {
+      throw new ConfigError(
+        `Profile "${name}" not found in ${file.path}; available: ${available.join(', ') || 'none'}`,
+        { source, profile: name }
+      );
+    }
+  }
+
+  return validateProfile(merged, { source, profile: name });
+}
+
+/**
+ * Checks the settings of a profile, collecting every problem into one error.
+ * @param settings - Raw settings from a file, the environment or code
+ * @param context - Where the settings came from, for the error message
+ * @returns The settings as a ConnectionProfile
+ * @throws ConfigError listing unknown keys, wrong types and missing settings
+ */
+export function validateProfile(
+  settings: Settings,
+  context: { source?: string; profile?: string } = {}
+): ConnectionProfile {
+  const problems: string[] = [];
+
+  for (const key of Object.keys(settings)) {
+    if (!PROFILE_KEYS.includes(key)) {
+      const hint = PROFILE_KEYS.find(
+        k => k.toLowerCase() === key.toLowerCase()
+      );
+      problems.push(
+        `unknown setting "${key}"${hint ? ` (did you mean "${hint}"?)` : ''}`
+      );
+    }
+  }
+
+  if (!settings.userId) {
+    problems.push(
+      'userId is required (set IOSENSE_USER_ID or add it to the profile)'
+    );
+  }
+  if (!settings.dataUrl && !settings.baseUrl) {
+    problems.push(
+      'dataUrl or baseUrl is required (set IOSENSE_DATA_URL or IOSENSE_BASE_URL, or add one to the profile)'
+    );
+  }
+  const strings = [
+    'userId',
+    'dataUrl',
+    'dsUrl',
+    'baseUrl',
+    'proxy',
+    'caFile',
+    'tz',
+    'token',
+  ];
+  for (const key of strings) {
+    const value = settings[key];
+    if (value !== undefined && typeof value !== 'string') {
+      problems.push(`${key} must be a string`);
+    }
+  }
+  for (const key of ['dataUrl', 'dsUrl']) {
+    const value = settings[key];
+    if (typeof value === 'string' && /^[a-z]+:\/\//i.test(value)) {
+      problems.push(
+        `${key} must be a host without protocol (got "${value}"); use baseUrl for a full URL`
+      );
+    }
+  }
+  if (typeof settings.baseUrl === 'string') {
+    try {
+      resolveBaseUrl(settings.baseUrl);
+    } catch (error: any) {
+      problems.push(error.message);
+    }
+  }
+  if (
+    typeof settings.proxy === 'string' &&
+    !/^https?:\/\/[^/]/i.test(settings.proxy)
+  ) {
+    problems.push('proxy must be an http:// or https:// URL');
+  }
+  if (
+    settings.rateLimit !== undefined &&
+    !(typeof settings.rateLimit === 'number' && settings.rateLimit > 0)
+  ) {
+    problems.push('rateLimit must be a positive number of requests per second');
+  }
+  if (settings.onPrem !== undefined && typeof settings.onPrem !== 'boolean') {
+    problems.push('onPrem must be true or false');
+  }
+  if (typeof settings.tz === 'string' && !isTimeZone(settings.tz)) {
+    problems.push(`tz "${settings.tz}" is not a known IANA timezone`);
+  }
+
+  const mqtt = settings.mqtt;
+  if (mqtt !== undefined) {
+    if (!isObject(mqtt)) {
+      problems.push('mqtt must be an object');
+    } else {
+      if (typeof mqtt.broker !== 'string' || mqtt.broker === '') {
+        problems.push('mqtt.broker is required');
+      }
+      if (
+        mqtt.port !== undefined &&
+        !(Number.isInteger(mqtt.port) && (mqtt.port as number) > 0)
+      ) {
+        problems.push('mqtt.port must be a positive integer');
+      }
+      for (const key of ['username', 'password']) {
+        if (mqtt[key] !== undefined && typeof mqtt[key] !== 'string') {
+          problems.push(`mqtt.${key} must be a string`);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    const where = [
+      context.profile && `profile "${context.profile}"`,
+      context.source,
+    ]
+      .filter(Boolean)
+      .join(' from ');
+    throw new ConfigError(
+      `Invalid ${where || 'connection settings'}: ${problems.join('; ')}`,
+      { ...context, problems }
+    );
+  }
+  return settings as unknown as ConnectionProfile;
+}
+
+/**
+ * Turns a profile into the connection options accepted by every connector
+ * class and IosenseClient: dataUrl defaults to the host of baseUrl, dsUrl to
+ * dataUrl, the CA file is read, rateLimit becomes a per-host limit, a token
+ * becomes a bearer auth provider and MQTT settings get their defaults.
+ * @param profile - A profile from loadProfile
+ * @returns Options to spread into a handler config
+ * @throws ConfigError if the CA file cannot be read
+ */
+export function profileConnection(
+  profile: ConnectionProfile
+): ProfileConnection {
+  const dataUrl =
+    profile.dataUrl ?? new URL(resolveBaseUrl(profile.baseUrl!)).host;
+  return {
+    userId: profile.userId,
+    dataUrl,
+    dsUrl: profile.dsUrl ?? dataUrl,
+    onPrem: profile.onPrem ?? false,
+    baseUrl: profile.baseUrl,
+    proxy: profile.proxy,
+    ca: profile.caFile ? readCaFile(profile.caFile) : undefined,
+    rateLimit: profile.rateLimit
+      ? { requestsPerSecond: profile.rateLimit }
+      : undefined,
+    tz: profile.tz,
+    auth: profile.token
+      ? createBearerTokenAuth({ token: profile.token })
+      : undefined,
+    mqtt: profile.mqtt && {
+      broker: profile.mqtt.broker,
+      port: profile.mqtt.port ?? 1883,
+      username: profile.mqtt.username ?? '',
+      password: profile.mqtt.password ?? '',
+    },
+  };
+}
+
+/**
+ * Reads the profile file. Without an explicit path, a missing default file
+ * is not an error.
+ */
+async function readConfigFile(
+  explicit: string | undefined
+): Promise<{ path: string; data: Settings } | null> {
+  const candidates = explicit ? [explicit] : DEFAULT_CONFIG_FILES;
+  for (const path of candidates) {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' && !explicit) continue;
+      throw new ConfigError(`Cannot read config file ${path}`, {
+        source: path,
+        cause: error,
+      });
+    }
+
+    let data: unknown;
+    try {
+      data = ['.yaml', '.yml'].includes(extname(path).toLowerCase())
+        ? yaml.load(text)
+        : JSON.parse(text);
+    } catch (error: any) {
+      throw new ConfigError(
+        `Config file ${path} is not valid: ${error.message}`,
+        {
+          source: path,
+          cause: error,
+        }
+      );
+    }
+    if (data === undefined || data === null) data = {};
+    if (
+      !isObject(data) ||
+      (data.profiles !== undefined && !isObject(data.profiles))
+    ) {
+      throw new ConfigError(
+        `Config file ${path} must contain an object with a "profiles" object`,
+        { source: path }
+      );
+    }
+    return { path, data };
+  }
+  return null;
+}
+
+function readCaFile(path: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error) {
+    throw new ConfigError(`Cannot read CA file ${path}`, {
+      source: path,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Settings given as environment variables with the given prefix. Values are
+ * converted to the types the profile expects; invalid ones are left as
+ * strings so validation reports them.
+ */
+function envSettings(env: NodeJS.ProcessEnv, prefix: string): Settings {
+  const settings: Settings = {};
+  for (const [key, suffix] of Object.entries(ENV_KEYS)) {
+    const value = env[prefix + suffix];
+    if (value === undefined || value === '') continue;
+    settings[key] =
+      key === 'onPrem'
+        ? parseBoolean(value)
+        : key === 'rateLimit' && /^\d+(\.\d+)?$/.test(value)
+          ? Number(value)
+          : value;
+  }
+
+  const mqtt: Settings = {};
+  for (const [key, suffix] of Object.entries(MQTT_ENV_KEYS)) {
+    const value = env[prefix + suffix];
+    if (value === undefined || value === '') continue;
+    mqtt[key] = key === 'port' && /^\d+$/.test(value) ? Number(value) : value;
+  }
+  if (Object.keys(mqtt).length > 0) settings.mqtt = mqtt;
+  return settings;
+}
+
+function parseBoolean(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
+  if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
+  return value;
+}
+
+function isTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Settings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withoutUndefined(settings: Partial<ConnectionProfile>): Settings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined)
+  );
+}
@@ -54,6 +54,18 @@ export const MAX_RETRIES: number = 15;
 export const RETRY_DELAY: readonly [number, number] = [2, 4] as const;
 export const CURSOR_LIMIT: number = 25000;
 
+// Shared HTTP transport defaults
+export const REQUEST_TIMEOUT: number = 60000; // ms
+export const TRANSPORT_MAX_RETRIES: number = 5;
+export const BACKOFF_BASE_DELAY: number = 1000; // ms
+export const BACKOFF_MAX_DELAY: number = 30000; // ms
+
+// Device list and metadata cache
+export const METADATA_CACHE_TTL: number = 300000; // ms
+
+// Concurrent downloads for DataAccess.dataQuery({ parallel: true })
+export const BATCH_CONCURRENCY: number = 4;
+
 // Type definitions for URL template parameters
 export interface UrlTemplateParams {
   protocol: 'http' | 'https';
@@ -0,0 +1,165 @@
+import axios from 'axios';
+
+/**
+ * Base class for every error thrown by the connector.
+ *
+ * Catch this to handle all connector failures in one place, or one of the
+ * subclasses below to react to a specific condition.
+ */
+export class IosenseError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export interface ApiErrorDetails {
+  url: string;
+  status?: number;
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * The platform answered with an error status, an unusable body, or did not
+ * answer at all (`status` is undefined for network errors and timeouts).
+ */
+export class ApiError extends IosenseError {
+  public readonly url: string;
+  public readonly status?: number;
+  public readonly body?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, { cause: details.cause });
+    this.url = details.url;
+    this.status = details.status;
+    this.body = details.body;
+  }
+
+  /**
+   * Builds an ApiError from a failed axios request.
+   * @param error - The error raised by axios
+   * @param url - The URL that was requested
+   */
+  static fromAxiosError(error: unknown, url: string): ApiError {
+    if (!axios.isAxiosError(error)) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new ApiError(message, { url, cause: error });
+    }
+    const status = error.response?.status;
+    const message = status
+      ? `Request failed with status ${status}: ${url}`
+      : `Request failed without a response (${error.code ?? error.message}): ${url}`;
+    return new ApiError(message, {
+      url,
+      status,
+      body: error.response?.data,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * A transient failure persisted after every retry allowed by the transport.
+ * The last underlying error is available as `cause`.
+ */
+export class MaxRetriesExceededError extends IosenseError {
+  public readonly url: string;
+  public readonly attempts: number;
+
+  constructor(url: string, attempts: number, cause: unknown) {
+    super(`Max retries (${attempts - 1}) exceeded while calling ${url}`, {
+      cause,
+    });
+    this.url = url;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * The requested device is not part of the user's account.
+ */
+export class DeviceNotFoundError extends IosenseError {
+  public readonly deviceId: string;
+
+  constructor(deviceId: string) {
+    super(`Device ${deviceId} not found in account`);
+    this.deviceId = deviceId;
+  }
+}
+
+/**
+ * The end of a requested time range lies before its start.
+ */
+export class InvalidTimeRangeError extends IosenseError {
+  public readonly startTime: unknown;
+  public readonly endTime: unknown;
+
+  constructor(startTime: unknown, endTime: unknown) {
+    super(`Invalid time range: start (${startTime}) > end (${endTime})`);
+    this.startTime = startTime;
+    this.endTime = endTime;
+  }
+}
+
+/**
+ * A method was called with arguments it cannot work with.
+ */
+export class ValidationError extends IosenseError {}
+
+/**
+ * A requested sensor ID or name does not exist on the device. `suggestions`
+ * lists close matches as "Name (ID)".
+ */
+export class SensorNotFoundError extends ValidationError {
+  public readonly deviceId: string;
+  public readonly sensor: string;
+  public readonly suggestions: string[];
+
+  constructor(deviceId: string, sensor: string, suggestions: string[] = []) {
+    super(
+      `Sensor "${sensor}" not found on device ${deviceId}` +
+        (suggestions.length > 0
+          ? `. Did you mean: ${suggestions.join(', ')}?`
+          : '')
+    );
+    this.deviceId = deviceId;
+    this.sensor = sensor;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * No credentials could be obtained for a request, e.g. because a token
+ * refresh callback failed. Rejected credentials surface as an ApiError with
+ * status 401 instead.
+ */
+export class AuthenticationError extends IosenseError {}
+
+export interface ConfigErrorDetails {
+  source?: string;
+  profile?: string;
+  problems?: string[];
+  cause?: unknown;
+}
+
+/**
+ * A connection profile or config file is missing or invalid. `source` is the
+ * file (or "environment") and `problems` lists every invalid setting.
+ */
+export class ConfigError extends ValidationError {
+  public readonly source?: string;
+  public readonly profile?: string;
+  public readonly problems: string[];
+
+  constructor(message: string, details: ConfigErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.source = details.source;
+    this.profile = details.profile;
+    this.problems = details.problems ?? [];
+  }
+}
@@ -0,0 +1,379 @@
+import { createWriteStream } from 'node:fs';
+import { FileHandle, open } from 'node:fs/promises';
+import { once } from 'node:events';
+import {
+  ByteWriter,
+  ParquetWriter,
+  schemaFromColumnData,
+} from 'hyparquet-writer';
+import type { ColumnSource, SchemaElement } from 'hyparquet-writer';
+import { ValidationError } from './errors.js';
+import { TimeFormat, formatTime, parseTime } from './time.js';
+
+// Type definitions for exports
+export type RowSource =
+  | readonly any[]
+  | Iterable<readonly any[]>
+  | AsyncIterable<readonly any[]>;
+
+export interface ExportOptions {
+  columns?: string[];
+  metadata?: {
+    sensors?: Array<{ sensorId: string; sensorName: string }>;
+  } | null;
+  timeFormat?: TimeFormat;
+  tz?: string;
+}
+
+export interface CsvExportOptions extends ExportOptions {
+  delimiter?: string;
+  nullValue?: string;
+  header?: boolean;
+}
+
+export interface ParquetExportOptions extends ExportOptions {
+  rowGroupSize?: number;
+}
+
+type Destination = string | NodeJS.WritableStream;
+
+const TIME_KEYS = ['timestamp', 'time'];
+
+/**
+ * Iterates a source as batches of rows: a plain array is one batch, an
+ * iterable or async iterable (such as dataQueryStream) yields its batches.
+ */
+export async function* batchesOf(source: RowSource): AsyncGenerator<readonly any[]> {
+  if (Array.isArray(source) && !source.some(Array.isArray)) {
+    yield source;
+    return;
+  }
+  for await (const batch of source as AsyncIterable<readonly any[]>) {
+    yield batch;
+  }
+}
+
+/**
+ * Orders the columns of the first batch: the time column first, then each
+ * sensor by its alias (sensor name), with its `_raw` column right after it.
+ */
+function resolveColumns(
+  rows: readonly any[],
+  options: ExportOptions
+): string[] {
+  if (options.columns) return options.columns;
+
+  const names = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) names.add(key);
+  }
+
+  const aliasOf: Record<string, string> = {};
+  for (const sensor of options.metadata?.sensors ?? []) {
+    aliasOf[sensor.sensorId] = sensor.sensorName;
+  }
+  const sortKey = (column: string): string => {
+    const base = column.endsWith('_raw') ? column.slice(0, -4) : column;
+    return aliasOf[base] ?? base;
+  };
+
+  const leading = [...TIME_KEYS, 'shift', 'sensor'].filter(key =>
+    names.has(key)
+  );
+  const rest = [...names]
+    .filter(name => !leading.includes(name))
+    .sort(
+      (a, b) =>
+        sortKey(a).localeCompare(sortKey(b), undefined, { numeric: true }) ||
+        a.length - b.length
+    );
+  return [...leading, ...rest];
+}
+
+/**
+ * Fails when a later batch has columns the first one did not, as they would
+ * otherwise be dropped silently. Skipped when `columns` is given explicitly.
+ */
+function checkColumns(
+  rows: readonly any[],
+  columns: string[],
+  options: ExportOptions
+): void {
+  if (options.columns) return;
+  const known = new Set(columns);
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!known.has(key)) {
+        throw new ValidationError(
+          `Column "${key}" is not in the first batch; pass the columns option to export it`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Formats a time column value; other values are returned unchanged.
+ */
+function timeValue(value: any, options: ExportOptions): any {
+  if (value === null || value === undefined || !options.timeFormat) {
+    return value;
+  }
+  return formatTime(
+    parseTime(value, options.tz),
+    options.timeFormat,
+    options.tz
+  );
+}
+
+/**
+ * Opens a destination for writing text, returning a write function that
+ * respects backpressure and a close function.
+ */
+function openText(destination: Destination): {
+  write: (chunk: string) => Promise<void>;
+  close: () => Promise<void>;
+} {
+  const stream =
+    typeof destination === 'string'
+      ? createWriteStream(destination, { encoding: 'utf8' })
+      : destination;
+  const owned = typeof destination === 'string';
+
+  return {
+    write: async chunk => {
+      if (!stream.write(chunk)) await once(stream, 'drain');
+    },
+    close: async () => {
+      if (!owned) return;
+      stream.end();
+      await once(stream, 'finish');
+    },
+  };
+}
+
+function csvField(value: any, delimiter: string, nullValue: string): string {
+  if (value === null || value === undefined) return nullValue;
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Writes rows as CSV.
+ *
+ * Columns are taken from the first batch (or `columns`) and ordered by sensor
+ * alias (pass `columns` when later batches may add columns); values missing
+ * from a row and nulls are written as `nullValue`.
+ * Fields containing the delimiter, quotes or line breaks are quoted.
+ * @param source - Rows from dataQuery, or the batches of dataQueryStream
+ * @param destination - File path or writable stream (left open)
+ * @param options - Columns, metadata for alias ordering, delimiter (default ","), null value (default ""), header (default true), time format and timezone
+ * @returns Number of rows written
+ *
+ * @example
+ * ```typescript
+ * await writeCsv(dataAccess.dataQueryStream({ deviceId, startTime, endTime }), 'export.csv', {
+ *   delimiter: ';',
+ *   timeFormat: 'local',
+ *   tz: 'Asia/Kolkata'
+ * });
+ * ```
+ */
+export async function writeCsv(
+  source: RowSource,
+  destination: Destination,
+  options: CsvExportOptions = {}
+): Promise<number> {
+  const { delimiter = ',', nullValue = '', header = true } = options;
+  if (delimiter.length === 0 || /["\r\n]/.test(delimiter)) {
+    throw new ValidationError(`Invalid CSV delimiter: ${delimiter}`);
+  }
+
+  const out = openText(destination);
+  let columns: string[] | null = null;
+  let count = 0;
+  try {
+    for await (const rows of batchesOf(source)) {
+      if (rows.length === 0) continue;
+      if (!columns) {
+        columns = resolveColumns(rows, options);
+        if (header) {
+          await out.write(
+            columns
+              .map(c => csvField(c, delimiter, nullValue))
+              .join(delimiter) + '\n'
+          );
+        }
+      } else {
+        checkColumns(rows, columns, options);
+      }
+      const lines = rows.map(row =>
+        columns!
+          .map(column => {
+            const value = TIME_KEYS.includes(column)
+              ? timeValue(row[column], options)
+              : row[column];
+            return csvField(value, delimiter, nullValue);
+          })
+          .join(delimiter)
+      );
+      await out.write(lines.join('\n') + '\n');
+      count += rows.length;
+    }
+  } finally {
+    await out.close();
+  }
+  return count;
+}
+
+/**
+ * Writes rows as newline-delimited JSON, one object per row.
+ *
+ * Keys follow the column order of writeCsv; missing values are written as
+ * null so every line has the same keys.
+ * @param source - Rows from dataQuery, or the batches of dataQueryStream
+ * @param destination - File path or writable stream (left open)
+ * @param options - Columns, metadata for alias ordering, time format and timezone
+ * @returns Number of rows written
+ */
+export async function writeNdjson(
+  source: RowSource,
+  destination: Destination,
+  options: ExportOptions = {}
+): Promise<number> {
+  const out = openText(destination);
+  let columns: string[] | null = null;
+  let count = 0;
+  try {
+    for await (const rows of batchesOf(source)) {
+      if (rows.length === 0) continue;
+      if (!columns) columns = resolveColumns(rows, options);
+      else checkColumns(rows, columns, options);
+      const lines = rows.map(row => {
+        const record: Record<string, any> = {};
+        for (const column of columns!) {
+          const value = TIME_KEYS.includes(column)
+            ? timeValue(row[column], options)
+            : row[column];
+          record[column] = value === undefined ? null : value;
+        }
+        return JSON.stringify(record);
+      });
+      await out.write(lines.join('\n') + '\n');
+      count += rows.length;
+    }
+  } finally {
+    await out.close();
+  }
+  return count;
+}
+
+/**
+ * Writes rows to a Parquet file.
+ *
+ * The schema is fixed by the first batch (or `columns`): the time column is
+ * stored as a millisecond timestamp, columns whose values are all numeric
+ * (numeric strings included) as nullable doubles and the rest as nullable
+ * strings. Later values that do not fit a double column are stored as null;
+ * pass `columns` when later batches may add columns.
+ * Each batch of a stream is written as its own row groups.
+ * @param source - Rows from dataQuery, or the batches of dataQueryStream
+ * @param filename - Path of the Parquet file to create
+ * @param options - Columns, metadata for alias ordering, timezone for naive times and row group size
+ * @returns Number of rows written
+ */
+export async function writeParquet(
+  source: RowSource,
+  filename: string,
+  options: ParquetExportOptions = {}
+): Promise<number> {
+  const { rowGroupSize, tz } = options;
+  const bytes = new ByteWriter();
+  let file: FileHandle | null = null;
+  let writer: ParquetWriter | null = null;
+  let columns: string[] = [];
+  let types: Record<string, 'TIMESTAMP' | 'DOUBLE' | 'STRING'> = {};
+  let count = 0;
+
+  // The encoder tracks file offsets itself, so its buffer can be emptied
+  // after every batch to keep memory bounded while streaming
+  const flush = async (): Promise<void> => {
+    await file!.write(bytes.getBytes());
+    bytes.index = 0;
+  };
+
+  try {
+    for await (const rows of batchesOf(source)) {
+      if (rows.length === 0) continue;
+
+      if (!writer) {
+        columns = resolveColumns(rows, options);
+        types = {};
+        for (const column of columns) {
+          types[column] = TIME_KEYS.includes(column)
+            ? 'TIMESTAMP'
+            : rows.every(row => toDouble(row[column]) !== undefined)
+              ? 'DOUBLE'
+              : 'STRING';
+        }
+      } else {
+        checkColumns(rows, columns, options);
+      }
+
+      const columnData: ColumnSource[] = columns.map(column => ({
+        name: column,
+        type: types[column],
+        nullable: true,
+        data: rows.map(row => {
+          const value = row[column];
+          if (value === null || value === undefined) return null;
+          switch (types[column]) {
+            case 'TIMESTAMP':
+              return new Date(parseTime(value, tz));
+            case 'DOUBLE':
+              return toDouble(value) ?? null;
+            default:
+              return typeof value === 'object'
+                ? JSON.stringify(value)
+                : String(value);
+          }
+        }),
+      }));
+
+      if (!writer) {
+        const schema: SchemaElement[] = schemaFromColumnData({ columnData });
+        writer = new ParquetWriter({ writer: bytes, schema });
+        file = await open(filename, 'w');
+      }
+      await writer.write({ columnData, rowGroupSize });
+      await flush();
+      count += rows.length;
+    }
+
+    if (!writer) {
+      throw new ValidationError('No rows to write to Parquet');
+    }
+    await writer.finish();
+    await flush();
+  } finally {
+    await file?.close();
+  }
+  return count;
+}
+
+/**
+ * Numeric value of a cell, null for empty cells and undefined for values
+ * that are not numbers.
+ */
+function toDouble(value: any): number | null | undefined {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
@@ -0,0 +1,92 @@
+/* eslint-disable no-console */
+
+// Type definitions for the pluggable logger
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal logging interface accepted by every connector class.
+ *
+ * Messages are short and constant; variable data (url, deviceId, durationMs,
+ * page, count, error, ...) goes into `fields` so structured loggers such as
+ * pino or winston can index it. Both libraries satisfy this interface as-is.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const noop = (): void => {};
+
+/**
+ * Logger that discards everything. Used when no logger is configured.
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/**
+ * Creates a logger that writes to the console, dropping messages below `level`.
+ * @param level - Lowest level that is written (default 'info')
+ * @param output - Console to write to (default the global console, whose
+ *   debug and info go to stdout)
+ * @returns Console-backed logger
+ *
+ * @example
+ * ```typescript
+ * const dataAccess = new DataAccess({
+ *   userId, dataUrl, dsUrl,
+ *   logger: createConsoleLogger('debug')
+ * });
+ * ```
+ */
+export function createConsoleLogger(
+  level: LogLevel = 'info',
+  output: Pick<Console, LogLevel> = console
+): Logger {
+  const write =
+    (target: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LEVELS[target] < LEVELS[level]) return;
+      const line = `[${target.toUpperCase()}] ${message}`;
+      if (fields && Object.keys(fields).length > 0) {
+        output[target](line, fields);
+      } else {
+        output[target](line);
+      }
+    };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Picks the logger for a connector class from its config.
+ *
+ * The deprecated `logTime` flag predates the logger; when it is set without an
+ * explicit logger, a console logger at debug level is used so request timings
+ * are still printed.
+ * @param logger - Logger from the config, if any
+ * @param logTime - Legacy flag enabling timing output
+ */
+export function resolveLogger(logger?: Logger, logTime = false): Logger {
+  if (logger) return logger;
+  return logTime ? createConsoleLogger('debug') : silentLogger;
+}
@@ -0,0 +1,155 @@
+import { ValidationError } from './errors.js';
+import { getZonedParts, parseClockTime, zonedTimeToEpoch } from './time.js';
+
+// Type definitions for calendar periods
+export type Period = 'hour' | 'day' | 'shift' | 'month';
+
+export interface ShiftDefinition {
+  name: string;
+  start: string; // "HH:mm" in the configured timezone
+}
+
+export interface PeriodOptions {
+  tz?: string;
+  cycleStart?: string;
+  shifts?: ShiftDefinition[];
+}
+
+export interface PeriodBucket {
+  start: number;
+  end: number;
+  shift?: string;
+}
+
+const HOUR = 3600000;
+
+/**
+ * Splits a time range into calendar buckets in a timezone.
+ *
+ * Days and months start at `cycleStart` (e.g. "06:00" for a production day
+ * running 06:00-06:00); hours start at its minute. Shifts follow each other
+ * in the order of their start times and repeat daily; each shift ends where
+ * the next one starts. The first and last bucket are clipped to the range.
+ * Boundaries are computed on the wall clock, so a day spanning a DST change
+ * is 23 or 25 hours long.
+ * @param startTime - Range start (Unix timestamp in milliseconds)
+ * @param endTime - Range end (Unix timestamp in milliseconds)
+ * @param period - Bucket size
+ * @param options - Timezone (default UTC), cycle start (default "00:00") and shift definitions
+ * @returns Buckets covering the range, in time order
+ * @throws ValidationError for shift buckets without shift definitions or invalid clock times
+ *
+ * @example
+ * ```typescript
+ * periodBuckets(start, end, 'day', { tz: 'Asia/Kolkata', cycleStart: '06:00' });
+ * periodBuckets(start, end, 'shift', {
+ *   tz: 'Asia/Kolkata',
+ *   shifts: [{ name: 'A', start: '06:00' }, { name: 'B', start: '14:00' }, { name: 'C', start: '22:00' }]
+ * });
+ * ```
+ */
+export function periodBuckets(
+  startTime: number,
+  endTime: number,
+  period: Period,
+  options: PeriodOptions = {}
+): PeriodBucket[] {
+  const { tz = 'UTC', cycleStart = '00:00', shifts } = options;
+  if (endTime <= startTime) return [];
+
+  const boundaries =
+    period === 'shift'
+      ? shiftBoundaries(startTime, endTime, tz, shifts)
+      : calendarBoundaries(startTime, endTime, period, tz, cycleStart);
+
+  const buckets: PeriodBucket[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = Math.max(boundaries[i].time, startTime);
+    const end = Math.min(boundaries[i + 1].time, endTime);
+    if (end <= start) continue;
+    const bucket: PeriodBucket = { start, end };
+    if (boundaries[i].shift !== undefined) bucket.shift = boundaries[i].shift;
+    buckets.push(bucket);
+  }
+  return buckets;
+}
+
+/**
+ * Bucket start times from the last boundary at or before `startTime` up to
+ * the first one at or after `endTime`.
+ */
+function calendarBoundaries(
+  startTime: number,
+  endTime: number,
+  period: Exclude<Period, 'shift'>,
+  tz: string,
+  cycleStart: string
+): Array<{ time: number; shift?: string }> {
+  const { hour, minute } = parseClockTime(cycleStart);
+  const p = getZonedParts(startTime, tz);
+
+  const at = (year: number, month: number, day: number, h: number): number =>
+    zonedTimeToEpoch({ year, month, day, hour: h, minute, second: 0 }, tz);
+
+  let next: (i: number) => number;
+  if (period === 'hour') {
+    // Hours are absolute; align the first one to the cycle minute
+    let first = at(p.year, p.month, p.day, p.hour);
+    if (first > startTime) first -= HOUR;
+    next = i => first + i * HOUR;
+  } else if (period === 'day') {
+    const offset = at(p.year, p.month, p.day, hour) > startTime ? -1 : 0;
+    next = i => at(p.year, p.month, p.day + offset + i, hour);
+  } else if (period === 'month') {
+    const offset = at(p.year, p.month, 1, hour) > startTime ? -1 : 0;
+    next = i => at(p.year, p.month + offset + i, 1, hour);
+  } else {
+    throw new ValidationError(`Unsupported period: ${period}`);
+  }
+
+  const times: Array<{ time: number }> = [];
+  for (let i = 0; ; i++) {
+    const time = next(i);
+    times.push({ time });
+    if (time >= endTime) break;
+  }
+  return times;
+}
+
+/**
+ * Shift start times covering the range, labelled with the shift name.
+ */
+function shiftBoundaries(
+  startTime: number,
+  endTime: number,
+  tz: string,
+  shifts?: ShiftDefinition[]
+): Array<{ time: number; shift: string }> {
+  if (!shifts || shifts.length === 0) {
+    throw new ValidationError('Shift buckets require at least one shift');
+  }
+  const parsed = shifts
+    .map(shift => ({ name: shift.name, ...parseClockTime(shift.start) }))
+    .sort((a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute));
+
+  // Start a day early so the shift running at startTime is included
+  const p = getZonedParts(startTime, tz);
+  const times: Array<{ time: number; shift: string }> = [];
+  for (let day = -1; ; day++) {
+    for (const shift of parsed) {
+      const time = zonedTimeToEpoch(
+        {
+          year: p.year,
+          month: p.month,
+          day: p.day + day,
+          hour: shift.hour,
+          minute: shift.minute,
+          second: 0,
+        },
+        tz
+      );
+      times.push({ time, shift: shift.name });
+      if (time >= endTime) return times;
+    }
+  }
+}
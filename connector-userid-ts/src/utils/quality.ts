@@ -0,0 +1,329 @@
+import { ValidationError } from './errors.js';
+import { parseTime } from './time.js';
+
+// Type definitions for data quality reports
+export interface QualityRange {
+  min?: number;
+  max?: number;
+}
+
+export interface DataQualityOptions {
+  expectedIntervalMs?: number | Record<string, number>;
+  gapFactor?: number;
+  flatlineCount?: number;
+  ranges?: Record<string, QualityRange>;
+  tz?: string;
+  metadata?: {
+    sensors?: Array<{ sensorId: string; sensorName: string }>;
+    params?: Record<string, Array<{ paramName: string; paramValue: any }>>;
+  } | null;
+}
+
+export interface QualityGap {
+  start: number;
+  end: number;
+  durationMs: number;
+}
+
+export interface QualityFlatline {
+  start: number;
+  end: number;
+  count: number;
+  value: number;
+}
+
+export interface QualityOutOfRange {
+  time: number;
+  value: number;
+  min?: number;
+  max?: number;
+}
+
+export interface QualityDuplicate {
+  time: number;
+  count: number;
+}
+
+export interface QualityNonNumeric {
+  time: number;
+  value: unknown;
+}
+
+export interface SensorQualityReport {
+  sensor: string;
+  count: number;
+  firstTime: number | null;
+  lastTime: number | null;
+  expectedIntervalMs: number | null;
+  gaps: QualityGap[];
+  flatlines: QualityFlatline[];
+  outOfRange: QualityOutOfRange[];
+  duplicates: QualityDuplicate[];
+  nonNumeric: QualityNonNumeric[];
+}
+
+export interface DataQualityReport {
+  ok: boolean;
+  rowCount: number;
+  sensors: SensorQualityReport[];
+}
+
+interface Point {
+  time: number;
+  value: unknown;
+}
+
+const TIME_KEYS = new Set(['time', 'timestamp']);
+
+/**
+ * Checks dataQuery or getDp output for data problems, per sensor.
+ *
+ * Accepts pivoted rows (`{ timestamp, [sensor]: value }`, as returned by
+ * dataQuery) and long rows (`{ time, sensor, value }`, as returned by getDp).
+ * For each sensor it reports:
+ * - gaps: consecutive datapoints more than `gapFactor` × the expected interval apart
+ * - flatlines: at least `flatlineCount` consecutive identical values
+ * - outOfRange: values outside the sensor's min/max, from `ranges` or the metadata params
+ * - duplicates: timestamps reported more than once
+ * - nonNumeric: values that are not numbers (null values are not reported)
+ *
+ * The expected interval defaults to the median spacing of the sensor's
+ * datapoints. Ranges and expected intervals are looked up by column name,
+ * so sensor IDs and, with metadata, sensor names (aliases) both work.
+ * Timestamps without an offset (timeFormat 'local') are read in `tz`, which
+ * should match the instance timezone of the query. `<sensor>_raw` columns
+ * from `rawValues` are skipped.
+ * @param rows - Rows returned by dataQuery, dataQueryStream, getDp or getFirstDp
+ * @param options - Thresholds, expected intervals, ranges, timezone (default UTC) and device metadata
+ * @returns The report; `ok` is true when no sensor has any finding
+ *
+ * @example
+ * ```typescript
+ * const metadata = await dataAccess.getDeviceMetaData('DEVICE_001');
+ * const rows = await dataAccess.dataQuery({ deviceId: 'DEVICE_001', startTime, endTime });
+ * const report = dataQualityReport(rows, {
+ *   metadata,
+ *   expectedIntervalMs: 60000,
+ *   gapFactor: 5
+ * });
+ * if (!report.ok) console.table(report.sensors.map(s => ({ sensor: s.sensor, gaps: s.gaps.length })));
+ * ```
+ */
+export function dataQualityReport(
+  rows: readonly any[],
+  options: DataQualityOptions = {}
+): DataQualityReport {
+  const {
+    expectedIntervalMs,
+    gapFactor = 3,
+    flatlineCount = 10,
+    ranges = {},
+    tz = 'UTC',
+    metadata = null,
+  } = options;
+  if (!(gapFactor > 0)) {
+    throw new ValidationError('gapFactor must be greater than 0');
+  }
+  if (!(flatlineCount >= 2)) {
+    throw new ValidationError('flatlineCount must be at least 2');
+  }
+
+  // Sensor names resolve to their IDs for metadata lookups
+  const idByName: Record<string, string> = {};
+  for (const sensor of metadata?.sensors ?? []) {
+    idByName[sensor.sensorName] = sensor.sensorId;
+  }
+
+  const series = collectSeries(rows, tz);
+  const sensors: SensorQualityReport[] = [];
+  for (const [sensor, points] of series) {
+    const id = idByName[sensor] ?? sensor;
+    const interval =
+      typeof expectedIntervalMs === 'number'
+        ? expectedIntervalMs
+        : (expectedIntervalMs?.[sensor] ?? expectedIntervalMs?.[id]);
+    const range =
+      ranges[sensor] ?? ranges[id] ?? metadataRange(metadata?.params?.[id]);
+    sensors.push(
+      checkSensor(sensor, points, interval, gapFactor, flatlineCount, range)
+    );
+  }
+
+  return {
+    ok: sensors.every(
+      report =>
+        report.gaps.length === 0 &&
+        report.flatlines.length === 0 &&
+        report.outOfRange.length === 0 &&
+        report.duplicates.length === 0 &&
+        report.nonNumeric.length === 0
+    ),
+    rowCount: rows.length,
+    sensors,
+  };
+}
+
+/**
+ * Splits rows into time-ordered datapoints per sensor, leaving out rows
+ * whose time cannot be parsed.
+ */
+function collectSeries(rows: readonly any[], tz: string): Map<string, Point[]> {
+  const series = new Map<string, Point[]>();
+  const add = (sensor: string, time: number, value: unknown): void => {
+    if (value === undefined) return;
+    let points = series.get(sensor);
+    if (!points) series.set(sensor, (points = []));
+    points.push({ time, value });
+  };
+
+  for (const row of rows) {
+    const raw = row.timestamp ?? row.time;
+    if (raw === null || raw === undefined) continue;
+    // Timestamps without an offset are wall-clock times in tz
+    let time: number;
+    try {
+      time = parseTime(raw, tz);
+    } catch {
+      continue;
+    }
+    if (isNaN(time)) continue;
+
+    if (typeof row.sensor === 'string' && 'value' in row) {
+      add(row.sensor, time, row.value);
+    } else {
+      for (const [key, value] of Object.entries(row)) {
+        if (TIME_KEYS.has(key) || key === 'shift') continue;
+        // Uncalibrated companions of a sensor column (rawValues)
+        if (key.endsWith('_raw') && key.slice(0, -4) in row) continue;
+        add(key, time, value);
+      }
+    }
+  }
+
+  for (const points of series.values()) {
+    points.sort((a, b) => a.time - b.time);
+  }
+  return series;
+}
+
+function metadataRange(
+  params?: Array<{ paramName: string; paramValue: any }>
+): QualityRange | undefined {
+  const range: QualityRange = {};
+  for (const param of params ?? []) {
+    const value = parseFloat(param.paramValue);
+    if (isNaN(value)) continue;
+    if (param.paramName === 'min') range.min = value;
+    if (param.paramName === 'max') range.max = value;
+  }
+  return range.min === undefined && range.max === undefined ? undefined : range;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function checkSensor(
+  sensor: string,
+  points: Point[],
+  expectedIntervalMs: number | undefined,
+  gapFactor: number,
+  flatlineCount: number,
+  range: QualityRange | undefined
+): SensorQualityReport {
+  const report: SensorQualityReport = {
+    sensor,
+    count: 0,
+    firstTime: null,
+    lastTime: null,
+    expectedIntervalMs: null,
+    gaps: [],
+    flatlines: [],
+    outOfRange: [],
+    duplicates: [],
+    nonNumeric: [],
+  };
+
+  // Null values are missing datapoints rather than bad ones
+  const present = points.filter(point => point.value !== null);
+  report.count = present.length;
+  if (present.length === 0) return report;
+  report.firstTime = present[0].time;
+  report.lastTime = present[present.length - 1].time;
+
+  // Duplicates, and the distinct times used for gap detection
+  const times: number[] = [];
+  for (let i = 0; i < present.length; ) {
+    let j = i + 1;
+    while (j < present.length && present[j].time === present[i].time) j++;
+    if (j - i > 1)
+      report.duplicates.push({ time: present[i].time, count: j - i });
+    times.push(present[i].time);
+    i = j;
+  }
+
+  const deltas = times.slice(1).map((time, i) => time - times[i]);
+  const interval = expectedIntervalMs ?? median(deltas);
+  report.expectedIntervalMs = interval ?? null;
+  if (interval) {
+    deltas.forEach((delta, i) => {
+      if (delta > gapFactor * interval) {
+        report.gaps.push({
+          start: times[i],
+          end: times[i + 1],
+          durationMs: delta,
+        });
+      }
+    });
+  }
+
+  // Values: non-numeric, out of range and runs of identical values
+  let runStart = 0;
+  let runValue: number | null = null;
+  const closeRun = (end: number): void => {
+    if (runValue !== null && end - runStart >= flatlineCount) {
+      report.flatlines.push({
+        start: present[runStart].time,
+        end: present[end - 1].time,
+        count: end - runStart,
+        value: runValue,
+      });
+    }
+  };
+
+  present.forEach((point, i) => {
+    const value = toNumber(point.value);
+    if (value === null) {
+      report.nonNumeric.push({ time: point.time, value: point.value });
+    } else if (
+      range &&
+      ((range.min !== undefined && value < range.min) ||
+        (range.max !== undefined && value > range.max))
+    ) {
+      report.outOfRange.push({ time: point.time, value, ...range });
+    }
+
+    if (value === null || value !== runValue) {
+      closeRun(i);
+      runStart = i;
+      runValue = value;
+    }
+  });
+  closeRun(present.length);
+
+  return report;
+}
+
+function median(values: number[]): number | undefined {
+  const positive = values.filter(value => value > 0).sort((a, b) => a - b);
+  if (positive.length === 0) return undefined;
+  const mid = positive.length >> 1;
+  return positive.length % 2
+    ? positive[mid]
+    : (positive[mid - 1] + positive[mid]) / 2;
+}
@@ -0,0 +1,118 @@
+import { ValidationError } from './errors.js';
+
+// Type definitions for client-side rate limiting
+export interface RateLimit {
+  /** Requests per second the bucket refills with */
+  requestsPerSecond: number;
+  /** Requests that may be sent at once after an idle period (default 1) */
+  burst?: number;
+}
+
+export interface RateLimitConfig extends RateLimit {
+  /** Limits for specific hosts (`host` or `host:port`), replacing the default */
+  hosts?: Record<string, RateLimit>;
+}
+
+/**
+ * Token bucket holding up to `burst` tokens and refilling at
+ * `requestsPerSecond`. Each request takes a token; when none is left the
+ * request waits for the next one. Waiting requests reserve their token up
+ * front, so they are released in the order they arrived.
+ */
+export class TokenBucket {
+  private readonly ratePerMs: number;
+  private readonly burst: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(limit: RateLimit) {
+    validateLimit(limit);
+    this.ratePerMs = limit.requestsPerSecond / 1000;
+    this.burst = limit.burst ?? 1;
+    this.tokens = this.burst;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Takes a token, waiting until one is available.
+   * @param signal - Cancels the wait; the reserved token is given back
+   * @returns The time waited in milliseconds
+   * @throws The abort reason if the wait is cancelled through `signal`
+   */
+  take(signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + (now - this.updatedAt) * this.ratePerMs
+    );
+    this.updatedAt = now;
+    this.tokens -= 1;
+    if (this.tokens >= 0) return Promise.resolve(0);
+
+    const waitMs = Math.ceil(-this.tokens / this.ratePerMs);
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        this.tokens += 1;
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(waitMs);
+      }, waitMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * One token bucket per host, created on first use.
+ */
+export class RateLimiter {
+  private readonly config: RateLimitConfig;
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  constructor(config: RateLimitConfig) {
+    validateLimit(config);
+    for (const [host, limit] of Object.entries(config.hosts ?? {})) {
+      validateLimit(limit, host);
+    }
+    this.config = config;
+  }
+
+  /**
+   * Takes a token from the bucket of the URL's host.
+   * @param url - Absolute request URL
+   * @param signal - Cancels the wait
+   * @returns The time waited in milliseconds
+   */
+  take(url: string, signal?: AbortSignal): Promise<number> {
+    const { host, hostname } = new URL(url);
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      const hosts = this.config.hosts ?? {};
+      bucket = new TokenBucket(hosts[host] ?? hosts[hostname] ?? this.config);
+      this.buckets.set(host, bucket);
+    }
+    return bucket.take(signal);
+  }
+}
+
+function validateLimit(limit: RateLimit, host?: string): void {
+  const name = host ? `rateLimit.hosts["${host}"]` : 'rateLimit';
+  if (
+    !(limit.requestsPerSecond > 0) ||
+    !Number.isFinite(limit.requestsPerSecond)
+  ) {
+    throw new ValidationError(
+      `${name}.requestsPerSecond must be a positive number`
+    );
+  }
+  if (
+    limit.burst !== undefined &&
+    (!Number.isInteger(limit.burst) || limit.burst < 1)
+  ) {
+    throw new ValidationError(`${name}.burst must be a positive integer`);
+  }
+}
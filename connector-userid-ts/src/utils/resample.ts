@@ -0,0 +1,199 @@
+import { ValidationError } from './errors.js';
+import { PeriodBucket, ShiftDefinition, periodBuckets } from './periods.js';
+import { getTimezoneOffset, parseClockTime, parseTime } from './time.js';
+
+// Type definitions for resampling
+export type ResampleInterval = '1m' | '15m' | '1h' | 'shift' | 'day';
+
+export type AggregationFunction =
+  | 'mean'
+  | 'min'
+  | 'max'
+  | 'sum'
+  | 'first'
+  | 'last'
+  | 'count';
+
+export interface ResampleOptions {
+  interval: ResampleInterval;
+  agg?: AggregationFunction | Record<string, AggregationFunction>;
+  cycleStart?: string; // "HH:mm" in the configured timezone
+  shifts?: ShiftDefinition[];
+  tz?: string;
+}
+
+export type Bucketer = (epochMs: number) => { start: number; shift?: string };
+
+const MINUTE = 60000;
+const DAY = 86400000;
+
+const FIXED_INTERVALS: Record<string, number> = {
+  '1m': MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+};
+
+/**
+ * Returns a function mapping an instant to the start of its resampling bucket.
+ *
+ * Fixed intervals are aligned to the wall clock of the timezone, offset by
+ * the minutes of `cycleStart`; shifts and days follow periodBuckets.
+ * @param options - Interval, timezone (default UTC), cycle start (default "00:00") and shifts
+ * @returns Bucketer; bucket starts are Unix timestamps in milliseconds
+ * @throws ValidationError for unknown intervals or invalid cycle/shift times
+ */
+export function createBucketer(options: ResampleOptions): Bucketer {
+  const { interval, tz = 'UTC', cycleStart = '00:00', shifts } = options;
+  const { hour, minute } = parseClockTime(cycleStart);
+
+  const size = FIXED_INTERVALS[interval];
+  if (size !== undefined) {
+    const anchor = (hour * 60 + minute) * MINUTE;
+    return epochMs => {
+      const local = epochMs + getTimezoneOffset(epochMs, tz) - anchor;
+      return { start: epochMs - (((local % size) + size) % size) };
+    };
+  }
+
+  if (interval !== 'day' && interval !== 'shift') {
+    throw new ValidationError(`Unsupported resample interval: ${interval}`);
+  }
+
+  // Buckets of a few days around the last lookup; rows arrive in time order
+  let buckets: PeriodBucket[] = [];
+  return epochMs => {
+    const first = buckets[0];
+    const last = buckets[buckets.length - 1];
+    if (!first || epochMs < first.start || epochMs >= last.end) {
+      buckets = periodBuckets(epochMs - 2 * DAY, epochMs + 2 * DAY, interval, {
+        tz,
+        cycleStart,
+        shifts,
+      });
+    }
+    let lo = 0;
+    let hi = buckets.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (buckets[mid].start <= epochMs) lo = mid;
+      else hi = mid - 1;
+    }
+    const bucket = buckets[lo];
+    return bucket.shift === undefined
+      ? { start: bucket.start }
+      : { start: bucket.start, shift: bucket.shift };
+  };
+}
+
+/**
+ * Resamples pivoted rows to fixed intervals, shifts or days.
+ *
+ * Each sensor column is aggregated with its own function (`agg` may be one
+ * function for all columns or a map by column name; unlisted columns use
+ * 'mean'). mean/min/max/sum skip non-numeric values, first/last keep the raw
+ * value and count counts non-null values. Buckets without rows are omitted.
+ * @param rows - Pivoted rows in time order, each with a `timestamp` (or `time`) field; strings without an offset are read in `tz`
+ * @param options - Interval, aggregation functions, timezone, cycle start and shifts
+ * @returns One row per bucket; `timestamp` is the bucket start, in the format of the input timestamps
+ *
+ * @example
+ * ```typescript
+ * resample(rows, {
+ *   interval: '1h',
+ *   agg: { D5: 'mean', SHOTS: 'sum' },
+ *   tz: 'Asia/Kolkata',
+ *   cycleStart: '08:00'
+ * });
+ * ```
+ */
+export function resample(
+  rows: readonly any[],
+  options: ResampleOptions
+): any[] {
+  const { agg = 'mean', tz = 'UTC' } = options;
+  const bucketer = createBucketer(options);
+  const result: any[] = [];
+  let group: any[] = [];
+  let current: { start: number; shift?: string } | null = null;
+
+  const flush = (): void => {
+    if (!current || group.length === 0) return;
+    const columns = new Set<string>();
+    for (const row of group) {
+      for (const key of Object.keys(row)) {
+        if (key !== 'timestamp' && key !== 'time') columns.add(key);
+      }
+    }
+    const timeKey = 'timestamp' in group[0] ? 'timestamp' : 'time';
+    const out: any = {
+      [timeKey]:
+        typeof group[0][timeKey] === 'number'
+          ? current.start
+          : new Date(current.start).toISOString(),
+    };
+    if (current.shift !== undefined) out.shift = current.shift;
+    for (const column of columns) {
+      const fn = typeof agg === 'string' ? agg : (agg[column] ?? 'mean');
+      out[column] = aggregate(
+        group.map(row => row[column]),
+        fn
+      );
+    }
+    result.push(out);
+  };
+
+  for (const row of rows) {
+    const raw = row.timestamp ?? row.time;
+    if (raw === null || raw === undefined) continue;
+    // Timestamps without an offset are wall-clock times in tz
+    let epochMs: number;
+    try {
+      epochMs = parseTime(raw, tz);
+    } catch {
+      continue;
+    }
+
+    const bucket = bucketer(epochMs);
+    if (!current || bucket.start !== current.start) {
+      flush();
+      current = bucket;
+      group = [];
+    }
+    group.push(row);
+  }
+  flush();
+
+  return result;
+}
+
+function aggregate(values: any[], fn: AggregationFunction): any {
+  const present = values.filter(value => value !== null && value !== undefined);
+  switch (fn) {
+    case 'first':
+      return present.length > 0 ? present[0] : null;
+    case 'last':
+      return present.length > 0 ? present[present.length - 1] : null;
+    case 'count':
+      return present.length;
+  }
+
+  const numbers = present
+    .map(value => (typeof value === 'number' ? value : parseFloat(value)))
+    .filter(value => !isNaN(value));
+  if (numbers.length === 0) return null;
+
+  switch (fn) {
+    case 'sum':
+      return numbers.reduce((total, value) => total + value, 0);
+    case 'mean':
+      return (
+        numbers.reduce((total, value) => total + value, 0) / numbers.length
+      );
+    case 'min':
+      return numbers.reduce((a, b) => (b < a ? b : a));
+    case 'max':
+      return numbers.reduce((a, b) => (b > a ? b : a));
+    default:
+      throw new ValidationError(`Unsupported aggregation function: ${fn}`);
+  }
+}
@@ -0,0 +1,130 @@
+import { SensorNotFoundError, ValidationError } from './errors.js';
+
+// Type definitions for sensor lookups
+export interface SensorRef {
+  sensorId: string;
+  sensorName: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Resolves sensor IDs or names to sensor IDs.
+ *
+ * Each entry is matched, in order, against the sensor IDs, the sensor names,
+ * and then both again ignoring case and surrounding whitespace. The result
+ * keeps the requested order without duplicates, so an ID and the name of the
+ * same sensor can be mixed freely.
+ * @param requested - Sensor IDs and/or names, e.g. ["D5", "Mould Temperature"]
+ * @param sensors - The device's sensors (`DeviceMetadata.sensors`)
+ * @param deviceId - Device the sensors belong to, for error messages
+ * @returns Sensor IDs
+ * @throws SensorNotFoundError for an entry matching no sensor, listing close matches
+ * @throws ValidationError for a name shared by several sensors
+ *
+ * @example
+ * ```typescript
+ * resolveSensorIds(['Mould Temp', 'D12'], metadata.sensors, 'SDPLYPLC_01'); // ['D5', 'D12']
+ * ```
+ */
+export function resolveSensorIds(
+  requested: readonly string[],
+  sensors: readonly SensorRef[],
+  deviceId: string
+): string[] {
+  const ids: string[] = [];
+  for (const entry of requested) {
+    const id = resolveSensorId(entry, sensors, deviceId);
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+function resolveSensorId(
+  entry: string,
+  sensors: readonly SensorRef[],
+  deviceId: string
+): string {
+  if (sensors.some(sensor => sensor.sensorId === entry)) return entry;
+
+  const normalized = normalize(entry);
+  const passes: Array<(sensor: SensorRef) => boolean> = [
+    sensor => sensor.sensorName === entry,
+    sensor => normalize(sensor.sensorId) === normalized,
+    sensor => normalize(sensor.sensorName) === normalized,
+  ];
+  for (const matches of passes) {
+    const found = sensors.filter(matches);
+    if (found.length === 1) return found[0].sensorId;
+    if (found.length > 1) {
+      throw new ValidationError(
+        `Sensor name "${entry}" matches several sensors on device ${deviceId} (${found
+          .map(sensor => sensor.sensorId)
+          .join(', ')}); use the sensor ID instead`
+      );
+    }
+  }
+
+  throw new SensorNotFoundError(
+    deviceId,
+    entry,
+    closeMatches(entry, sensors).map(
+      sensor => `${sensor.sensorName} (${sensor.sensorId})`
+    )
+  );
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * Sensors whose ID or name is within a few edits of the input, or contains
+ * it, closest first.
+ */
+function closeMatches(
+  entry: string,
+  sensors: readonly SensorRef[]
+): SensorRef[] {
+  const input = normalize(entry);
+  const threshold = Math.max(2, Math.floor(input.length / 3));
+
+  const scored: Array<{ sensor: SensorRef; distance: number }> = [];
+  for (const sensor of sensors) {
+    let best = Infinity;
+    for (const candidate of [sensor.sensorId, sensor.sensorName]) {
+      const text = normalize(candidate ?? '');
+      if (!text) continue;
+      const distance =
+        input.length > 0 && (text.includes(input) || input.includes(text))
+          ? Math.abs(text.length - input.length) / 100
+          : editDistance(input, text);
+      best = Math.min(best, distance);
+    }
+    if (best <= threshold) scored.push({ sensor, distance: best });
+  }
+
+  return scored
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ sensor }) => sensor);
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
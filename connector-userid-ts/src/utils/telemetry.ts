@@ -0,0 +1,333 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import * as constants from './constants.js';
+
+// Type definitions for request hooks and tracing
+export interface RequestInfo {
+  /** Public method that sent the request, e.g. "dataQuery" */
+  operation?: string;
+  /** Endpoint template, e.g. "/api/metaData/device/{device_id}" */
+  endpoint: string;
+  /** HTTP method */
+  method: string;
+  url: string;
+  deviceId?: string;
+  /** Number of the request within the public call, starting at 1 */
+  page: number;
+  /** Retry number, 0 for the first attempt */
+  attempt: number;
+}
+
+export interface ResponseInfo extends RequestInfo {
+  status: number;
+  durationMs: number;
+}
+
+export interface RetryInfo extends RequestInfo {
+  status?: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface ErrorInfo extends RequestInfo {
+  status?: number;
+  durationMs: number;
+  error: unknown;
+}
+
+export interface TransportHooks {
+  onRequest?(info: RequestInfo): void;
+  onResponse?(info: ResponseInfo): void;
+  onRetry?(info: RetryInfo): void;
+  onError?(info: ErrorInfo): void;
+}
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface TraceSpan {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+/**
+ * Creates spans for the transport. `parent` is a span this tracer returned
+ * earlier, or undefined for a root span.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    attributes: SpanAttributes,
+    parent?: TraceSpan
+  ): TraceSpan;
+}
+
+export interface CallContext {
+  operation: string;
+  deviceId?: string;
+  pages: number;
+  span?: TraceSpan;
+}
+
+/**
+ * The parts of `@opentelemetry/api` used by createOpenTelemetryTracer, so the
+ * package is not a dependency of the connector.
+ */
+export interface OpenTelemetryApi {
+  trace: { setSpan(context: unknown, span: any): unknown };
+  context: { active(): unknown };
+  SpanStatusCode: { ERROR: number };
+}
+
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, SpanAttributeValue> },
+    context?: unknown
+  ): {
+    setAttribute(key: string, value: SpanAttributeValue): unknown;
+    recordException(exception: any): void;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(): void;
+  };
+}
+
+const calls = new AsyncLocalStorage<CallContext>();
+
+const URL_PREFIX = '{protocol}://{data_url}';
+
+// Endpoint paths of constants.ts, longest first so that the most specific matches
+const ENDPOINTS = Object.values(constants as Record<string, unknown>)
+  .filter(
+    (value): value is string =>
+      typeof value === 'string' && value.startsWith(URL_PREFIX)
+  )
+  .map(template => template.slice(URL_PREFIX.length).replace(/\/$/, ''))
+  .sort((a, b) => b.length - a.length)
+  .map(path => ({
+    path,
+    pattern: new RegExp(
+      path
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\\\{\w+\\\}/g, '[^/]+') + '(?:/|$)'
+    ),
+  }));
+
+/**
+ * The public call the current code runs in, if any.
+ */
+export function currentCall(): CallContext | undefined {
+  return calls.getStore();
+}
+
+/**
+ * Runs `fn` as one public call: requests it sends are numbered as its pages
+ * and, with a tracer, become child spans of a span named after `operation`.
+ * Calls made inside `fn` are nested in the same way.
+ * @param tracer - Tracer for the call span, if tracing is enabled
+ * @param operation - Public method name
+ * @param deviceId - Device the call is about, if any
+ * @param fn - The call
+ * @returns The result of `fn`
+ */
+export async function runCall<T>(
+  tracer: Tracer | undefined,
+  operation: string,
+  deviceId: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const call = startCall(tracer, operation, deviceId);
+  try {
+    const result = await calls.run(call, fn);
+    endCall(call);
+    return result;
+  } catch (error) {
+    endCall(call, error);
+    throw error;
+  }
+}
+
+/**
+ * Like runCall for async generators: the call lasts until the stream is
+ * exhausted, fails or is closed by the consumer.
+ */
+export async function* streamCall<T>(
+  tracer: Tracer | undefined,
+  operation: string,
+  deviceId: string | undefined,
+  source: AsyncGenerator<T, void, undefined>
+): AsyncGenerator<T, void, undefined> {
+  const call = startCall(tracer, operation, deviceId);
+  let failed = false;
+  try {
+    for (;;) {
+      const result = await calls.run(call, () => source.next());
+      if (result.done) return;
+      yield result.value;
+    }
+  } catch (error) {
+    failed = true;
+    endCall(call, error);
+    throw error;
+  } finally {
+    if (!failed) {
+      // Closed early by the consumer: let the source clean up, too
+      await calls.run(call, () => source.return());
+      endCall(call);
+    }
+  }
+}
+
+/**
+ * Wraps the listed public methods of a handler class in runCall (or
+ * streamCall for async generators), using the tracer of the instance's
+ * transport. The device ID is read from an options object's `deviceId` or
+ * `devID`, or with the given extractor.
+ * @param target - Handler class
+ * @param methods - Names of the methods to wrap
+ * @param tracerOf - Returns the tracer of an instance, if any
+ * @param deviceIds - Extractors for methods that take the device positionally
+ */
+export function traceMethods<T extends object>(
+  target: { prototype: T },
+  methods: Array<keyof T & string>,
+  tracerOf: (instance: T) => Tracer | undefined,
+  deviceIds: Partial<
+    Record<keyof T & string, (...args: any[]) => string | undefined>
+  > = {}
+): void {
+  const prototype = target.prototype as Record<string, any>;
+  for (const name of methods) {
+    const original = prototype[name] as (...args: any[]) => any;
+    const deviceIdOf = deviceIds[name] ?? deviceFromOptions;
+    const streaming =
+      Object.prototype.toString.call(original) ===
+      '[object AsyncGeneratorFunction]';
+    prototype[name] = streaming
+      ? function (this: T, ...args: any[]): AsyncGenerator<unknown> {
+          return streamCall(
+            tracerOf(this),
+            name,
+            deviceIdOf(...args),
+            original.apply(this, args)
+          );
+        }
+      : function (this: T, ...args: any[]): Promise<unknown> {
+          return runCall(tracerOf(this), name, deviceIdOf(...args), () =>
+            original.apply(this, args)
+          );
+        };
+  }
+}
+
+/**
+ * Adapts an OpenTelemetry tracer to the Tracer interface, so the spans of
+ * the connector join the application's traces.
+ * @param tracer - Tracer from `trace.getTracer(name)`
+ * @param api - The `@opentelemetry/api` module
+ *
+ * @example
+ * ```typescript
+ * import * as api from '@opentelemetry/api';
+ *
+ * const client = new IosenseClient({
+ *   userId, dataUrl,
+ *   tracer: createOpenTelemetryTracer(api.trace.getTracer('iosense'), api)
+ * });
+ * ```
+ */
+export function createOpenTelemetryTracer(
+  tracer: OpenTelemetryTracer,
+  api: OpenTelemetryApi
+): Tracer {
+  const native = new WeakMap<TraceSpan, unknown>();
+  return {
+    startSpan(name, attributes, parent): TraceSpan {
+      const context =
+        parent && native.has(parent)
+          ? api.trace.setSpan(api.context.active(), native.get(parent))
+          : api.context.active();
+      const otelSpan = tracer.startSpan(
+        name,
+        { attributes: definedAttributes(attributes) },
+        context
+      );
+      const span: TraceSpan = {
+        setAttribute: (key, value) => {
+          otelSpan.setAttribute(key, value);
+        },
+        recordError: error => {
+          otelSpan.recordException(error as any);
+          otelSpan.setStatus({
+            code: api.SpanStatusCode.ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        },
+        end: () => otelSpan.end(),
+      };
+      native.set(span, otelSpan);
+      return span;
+    },
+  };
+}
+
+/**
+ * The endpoint template a URL was built from, e.g.
+ * "/api/metaData/device/{device_id}", so that metrics group requests by
+ * endpoint rather than by device or page. Unknown URLs give their path.
+ */
+export function endpointTemplate(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return url;
+  }
+  return ENDPOINTS.find(endpoint => endpoint.pattern.test(path))?.path ?? path;
+}
+
+function startCall(
+  tracer: Tracer | undefined,
+  operation: string,
+  deviceId: string | undefined
+): CallContext {
+  const parent = calls.getStore();
+  return {
+    operation,
+    deviceId: deviceId ?? parent?.deviceId,
+    pages: 0,
+    span: tracer?.startSpan(
+      `iosense.${operation}`,
+      { 'iosense.operation': operation, 'iosense.device_id': deviceId },
+      parent?.span
+    ),
+  };
+}
+
+function endCall(call: CallContext, error?: unknown): void {
+  if (!call.span) return;
+  call.span.setAttribute('iosense.pages', call.pages);
+  if (error !== undefined) call.span.recordError(error);
+  call.span.end();
+  call.span = undefined;
+}
+
+function deviceFromOptions(options?: unknown): string | undefined {
+  if (typeof options !== 'object' || options === null) return undefined;
+  const { deviceId, devID } = options as {
+    deviceId?: unknown;
+    devID?: unknown;
+  };
+  const id = deviceId ?? devID;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function definedAttributes(
+  attributes: SpanAttributes
+): Record<string, SpanAttributeValue> {
+  const defined: Record<string, SpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = value;
+  }
+  return defined;
+}
@@ -0,0 +1,286 @@
+import { ValidationError } from './errors.js';
+
+// Type definitions for timezone helpers
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch {
+      throw new ValidationError(`Invalid timezone: ${timeZone}`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Splits an instant into the wall-clock fields it has in a timezone.
+ * @param epochMs - Unix timestamp in milliseconds
+ * @param timeZone - IANA timezone, e.g. "Asia/Kolkata"
+ * @returns Year, month (1-12), day, hour, minute and second in that timezone
+ */
+export function getZonedParts(epochMs: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(
+    new Date(epochMs)
+  )) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds.
+ * @param epochMs - Unix timestamp in milliseconds
+ * @param timeZone - IANA timezone
+ * @returns Positive east of UTC, e.g. 19800000 for Asia/Kolkata
+ */
+export function getTimezoneOffset(epochMs: number, timeZone: string): number {
+  const whole = Math.floor(epochMs / 1000) * 1000;
+  const p = getZonedParts(whole, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return asUtc - whole;
+}
+
+/**
+ * Converts wall-clock fields in a timezone to a Unix timestamp.
+ *
+ * Fields may overflow (e.g. day 32 or hour 24) and are normalised the way
+ * Date.UTC does. A wall time that occurs twice (DST ends) resolves to its
+ * first occurrence; one skipped by DST resolves to the instant after the gap.
+ * @param parts - Wall-clock fields; month is 1-12
+ * @param timeZone - IANA timezone
+ * @returns Unix timestamp in milliseconds
+ */
+export function zonedTimeToEpoch(parts: ZonedParts, timeZone: string): number {
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  // Offsets in force before and after any transition near this wall time
+  const before = getTimezoneOffset(asUtc - 43200000, timeZone);
+  const after = getTimezoneOffset(asUtc + 43200000, timeZone);
+
+  const candidates = [asUtc - before, asUtc - after].filter(
+    t => t + getTimezoneOffset(t, timeZone) === asUtc
+  );
+  if (candidates.length > 0) return Math.min(...candidates);
+
+  // Skipped wall time: applying the earlier offset lands after the gap
+  return asUtc - before;
+}
+
+/**
+ * Parses a "HH:mm" clock time.
+ * @param value - Clock time such as "06:00" or "22:30"
+ * @returns Hours and minutes
+ * @throws ValidationError if the value is not a valid clock time
+ */
+export function parseClockTime(value: string): {
+  hour: number;
+  minute: number;
+} {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+  if (!(hour >= 0 && hour < 24 && minute >= 0 && minute < 60)) {
+    throw new ValidationError(`Invalid clock time "${value}", expected HH:mm`);
+  }
+  return { hour, minute };
+}
+
+export type TimeFormat = 'iso' | 'unix' | 'local';
+
+// "YYYY-MM-DD", "YYYY-MM-DD HH:mm", "YYYY-MM-DDTHH:mm:ss.SSS" without offset
+const NAIVE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+// Date part of an ISO 8601 string, with or without time and offset
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?=$|[ T])/;
+
+/**
+ * Number of days in a month, leap years included.
+ * @param year - Full year
+ * @param month - Month, 1-12
+ */
+function daysInMonth(year: number, month: number): number {
+  // Day 0 of the next month is the last day of this one
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, 0);
+  return date.getUTCDate();
+}
+
+/**
+ * Converts a time to a Unix timestamp, reading naive strings in a timezone.
+ *
+ * Strings without an offset ("2024-05-01 08:00:00", "2024-05-01T08:00",
+ * "2024-05-01") are wall-clock times in `timeZone`, resolved across DST the
+ * way zonedTimeToEpoch does. Strings with "Z" or an offset, numbers and Date
+ * objects are absolute and returned unchanged.
+ * @param time - Time to convert. null or undefined means now
+ * @param timeZone - IANA timezone for naive strings. Defaults to UTC
+ * @returns Unix timestamp in milliseconds
+ * @throws ValidationError if the time cannot be parsed or names a day the
+ *   month does not have, such as "2024-02-30"
+ *
+ * @example
+ * ```typescript
+ * parseTime('2024-05-01 08:00:00', 'Asia/Kolkata'); // 1714530600000
+ * parseTime('2024-05-01T08:00:00Z', 'Asia/Kolkata'); // 1714550400000
+ * ```
+ */
+export function parseTime(
+  time: string | number | Date | null | undefined,
+  timeZone: string = 'UTC'
+): number {
+  if (time === null || time === undefined) return Date.now();
+  if (typeof time === 'number') return time;
+  if (time instanceof Date) {
+    if (isNaN(time.getTime())) {
+      throw new ValidationError(`Invalid date: ${time}`);
+    }
+    return time.getTime();
+  }
+  if (typeof time !== 'string') {
+    throw new ValidationError(
+      'Time must be a string, number, Date object, or null'
+    );
+  }
+
+  const match = NAIVE_TIME.exec(time.trim());
+  if (match) {
+    const [, year, month, day, hour, minute, second, fraction] = match;
+    const parts: ZonedParts = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour ?? 0),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+    };
+    if (
+      parts.month < 1 ||
+      parts.month > 12 ||
+      parts.day < 1 ||
+      parts.day > daysInMonth(parts.year, parts.month) ||
+      parts.hour > 23 ||
+      parts.minute > 59 ||
+      parts.second > 59
+    ) {
+      throw new ValidationError(`Invalid date string: ${time}`);
+    }
+    const ms = fraction ? Number(fraction.padEnd(3, '0')) : 0;
+    return zonedTimeToEpoch(parts, timeZone) + ms;
+  }
+
+  // Date would roll "2024-02-31T00:00:00Z" over into March
+  const date = ISO_DATE.exec(time.trim());
+  const parsed = new Date(time).getTime();
+  if (
+    isNaN(parsed) ||
+    (date &&
+      (Number(date[3]) < 1 ||
+        Number(date[3]) > daysInMonth(Number(date[1]), Number(date[2]))))
+  ) {
+    throw new ValidationError(`Invalid date string: ${time}`);
+  }
+  return parsed;
+}
+
+/**
+ * Formats an instant as "YYYY-MM-DD HH:mm:ss" on the wall clock of a timezone.
+ * @param epochMs - Unix timestamp in milliseconds
+ * @param timeZone - IANA timezone
+ * @returns Local date and time without offset
+ */
+export function formatLocalTime(epochMs: number, timeZone: string): string {
+  const p = getZonedParts(epochMs, timeZone);
+  const pad = (value: number, width = 2): string =>
+    String(value).padStart(width, '0');
+  return (
+    `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)} ` +
+    `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`
+  );
+}
+
+/**
+ * Formats an instant as ISO 8601 with the offset of a timezone, e.g.
+ * "2024-05-01T08:00:00.000+05:30". UTC instants end in "Z".
+ * @param epochMs - Unix timestamp in milliseconds
+ * @param timeZone - IANA timezone
+ * @returns ISO 8601 string
+ */
+export function formatIsoTime(epochMs: number, timeZone: string): string {
+  const offset = getTimezoneOffset(epochMs, timeZone);
+  if (offset === 0) return new Date(epochMs).toISOString();
+
+  const local = new Date(epochMs + offset).toISOString().slice(0, -1);
+  const sign = offset < 0 ? '-' : '+';
+  const minutes = Math.abs(offset) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(Math.floor(minutes % 60)).padStart(2, '0');
+  return `${local}${sign}${hh}:${mm}`;
+}
+
+/**
+ * Formats an instant for output.
+ * @param epochMs - Unix timestamp in milliseconds
+ * @param format - 'iso' (ISO 8601 with offset), 'unix' (milliseconds) or 'local' ("YYYY-MM-DD HH:mm:ss")
+ * @param timeZone - IANA timezone for 'iso' and 'local'. Defaults to UTC
+ * @returns The formatted time
+ */
+export function formatTime(
+  epochMs: number,
+  format: TimeFormat,
+  timeZone: string = 'UTC'
+): string | number {
+  switch (format) {
+    case 'unix':
+      return epochMs;
+    case 'local':
+      return formatLocalTime(epochMs, timeZone);
+    case 'iso':
+      return formatIsoTime(epochMs, timeZone);
+    default:
+      throw new ValidationError(`Unsupported time format: ${format}`);
+  }
+}
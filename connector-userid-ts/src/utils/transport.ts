@@ -0,0 +1,682 @@
+import {
+  Agent as HttpsAgent,
+  AgentOptions as HttpsAgentOptions,
+} from 'node:https';
+import axios, {
+  AxiosInstance,
+  AxiosProxyConfig,
+  AxiosRequestConfig,
+  AxiosResponse,
+  Method,
+} from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import {
+  REQUEST_TIMEOUT,
+  TRANSPORT_MAX_RETRIES,
+  BACKOFF_BASE_DELAY,
+  BACKOFF_MAX_DELAY,
+  Protocol,
+} from './constants.js';
+import {
+  ApiError,
+  MaxRetriesExceededError,
+  ValidationError,
+} from './errors.js';
+import { Logger, silentLogger } from './logger.js';
+import { AuthProvider } from './auth.js';
+import { RateLimitConfig, RateLimiter } from './rateLimit.js';
+import {
+  RequestInfo,
+  Tracer,
+  TransportHooks,
+  currentCall,
+  endpointTemplate,
+} from './telemetry.js';
+
+// Type definitions for the shared HTTP transport
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+}
+
+export type CaCertificates = string | Buffer | Array<string | Buffer>;
+
+export interface TransportConfig {
+  timeoutMs?: number;
+  retry?: Partial<RetryConfig>;
+  axiosInstance?: AxiosInstance;
+  logger?: Logger;
+  auth?: AuthProvider;
+  proxy?: string | false;
+  ca?: CaCertificates;
+  rejectUnauthorized?: boolean;
+  hooks?: TransportHooks;
+  tracer?: Tracer;
+  rateLimit?: RateLimitConfig;
+  coalesce?: boolean;
+}
+
+export interface BaseUrlOptions {
+  protocol?: 'http' | 'https';
+  host: string;
+  port?: number;
+  pathPrefix?: string;
+}
+
+export type BaseUrl = string | BaseUrlOptions;
+
+export interface TransportRequest {
+  method: Method;
+  url: string;
+  params?: Record<string, any>;
+  data?: any;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /** Share the response of an identical request in flight (default: GET only) */
+  coalesce?: boolean;
+}
+
+export type TransportRequestOptions = Omit<
+  TransportRequest,
+  'method' | 'url' | 'data'
+>;
+
+interface NetworkConfig {
+  http: AxiosRequestConfig;
+  https: AxiosRequestConfig;
+}
+
+interface InFlightRequest {
+  response: Promise<AxiosResponse>;
+  controller: AbortController;
+  callers: number;
+}
+
+// Numbers auth providers so coalescing never shares responses between credentials
+const authIds = new WeakMap<AuthProvider, number>();
+let nextAuthId = 1;
+
+/**
+ * Replaces the `{protocol}` and `{data_url}` placeholders of an endpoint template.
+ * @param template - Endpoint template from constants.ts
+ * @param dataUrl - Host of the data service
+ * @param onPrem - Whether to use http (on-premises) instead of https
+ * @param baseUrl - Base URL from resolveBaseUrl; when given it replaces
+ *   protocol and host, and dataUrl and onPrem are ignored
+ * @returns The formatted URL
+ */
+export function formatUrl(
+  template: string,
+  dataUrl: string,
+  onPrem: boolean,
+  baseUrl?: string
+): string {
+  if (baseUrl) return template.replace('{protocol}://{data_url}', baseUrl);
+  const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
+  return template
+    .replace('{protocol}', protocol)
+    .replace('{data_url}', dataUrl);
+}
+
+/**
+ * Normalises a `baseUrl` option to `protocol://host[:port][/prefix]` without
+ * a trailing slash. Strings must be absolute http or https URLs; the object
+ * form defaults to https.
+ * @param baseUrl - URL string, or protocol, host, port and path prefix
+ * @returns The base URL that endpoint paths are appended to
+ * @throws ValidationError for other protocols, invalid ports, query strings
+ *   or fragments
+ *
+ * @example
+ * ```typescript
+ * resolveBaseUrl({ host: 'iosense.plant.local', port: 8443, pathPrefix: '/iosense/' });
+ * // 'https://iosense.plant.local:8443/iosense'
+ * ```
+ */
+export function resolveBaseUrl(baseUrl: BaseUrl): string {
+  let url: URL;
+  try {
+    url =
+      typeof baseUrl === 'string'
+        ? new URL(baseUrl)
+        : new URL(`${baseUrl.protocol ?? 'https'}://${baseUrl.host}`);
+  } catch {
+    throw new ValidationError(
+      `Invalid baseUrl ${JSON.stringify(baseUrl)}; expected e.g. "https://host:8443/prefix"`
+    );
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError(
+      `baseUrl must use http or https (got "${url.protocol.slice(0, -1)}")`
+    );
+  }
+  if (typeof baseUrl !== 'string') {
+    if (baseUrl.port !== undefined) {
+      if (
+        !Number.isInteger(baseUrl.port) ||
+        baseUrl.port < 1 ||
+        baseUrl.port > 65535
+      ) {
+        throw new ValidationError(`Invalid baseUrl port ${baseUrl.port}`);
+      }
+      url.port = String(baseUrl.port);
+    }
+    url.pathname = baseUrl.pathPrefix ?? '/';
+  }
+  if (url.search || url.hash) {
+    throw new ValidationError(
+      'baseUrl cannot contain a query string or fragment'
+    );
+  }
+  return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Formats a failed response for log and error messages.
+ * @param response - The axios response object, if one was received
+ * @param url - The URL that was requested
+ * @returns Formatted error message
+ */
+export function errorMessage(
+  response: AxiosResponse | undefined,
+  url: string
+): string {
+  if (!response) {
+    return `\n[URL] ${url}\n[EXCEPTION] No response received`;
+  }
+  const body =
+    typeof response.data === 'string'
+      ? response.data
+      : JSON.stringify(response.data);
+  return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers?.server || 'Unknown Server'}\n[RESPONSE] ${body}`;
+}
+
+/**
+ * Shared HTTP layer used by every connector class.
+ *
+ * Wraps a single axios instance and applies a request timeout, exponential
+ * backoff with jitter on transient failures (network errors, timeouts, 408,
+ * 429 and 5xx responses) and per-call cancellation through an AbortSignal.
+ * Other 4xx responses and aborted requests are never retried.
+ *
+ * `proxy` sends requests through an HTTP(S) proxy (HTTPS targets are
+ * tunnelled with CONNECT) and `false` ignores the `HTTP(S)_PROXY` variables
+ * axios otherwise honours. `ca` adds trusted certificates for HTTPS targets
+ * and HTTPS proxies, and `rejectUnauthorized: false` disables certificate
+ * checks.
+ *
+ * `rateLimit` keeps a token bucket per host that every attempt, including
+ * retries, takes a token from. Identical requests (same method, URL, params,
+ * body and credentials) sent while one is in flight share its response
+ * instead of going to the network again; this applies to GET requests and to
+ * requests sent with `coalesce: true`, and is turned off with
+ * `coalesce: false` in the config. A shared request is only cancelled when
+ * every caller has aborted.
+ *
+ * `hooks` are called for every attempt (`onRequest`, then `onResponse`,
+ * `onRetry` or `onError`) with the public method, endpoint template, device
+ * ID, page number within the call and duration. A `tracer` gets a span per
+ * public call with a child span per request.
+ *
+ * Headers from the `auth` provider are added to every attempt. A 401 response
+ * makes the transport call the provider's `refresh()` once and send the
+ * request again; this does not count as a retry.
+ *
+ * @example
+ * ```typescript
+ * const transport = new HttpTransport({
+ *   timeoutMs: 20000,
+ *   retry: { maxRetries: 3, baseDelayMs: 500 },
+ *   proxy: 'http://proxy.plant.local:3128',
+ *   ca: readFileSync('/etc/ssl/plant-ca.pem')
+ * });
+ *
+ * const dataAccess = new DataAccess({ userId, dataUrl, dsUrl, transport });
+ * const events = new EventsHandler({ userId, dataUrl, transport });
+ * ```
+ */
+export class HttpTransport {
+  private readonly client: AxiosInstance;
+  private readonly timeoutMs: number;
+  private readonly retry: RetryConfig;
+  private readonly logger: Logger;
+  private readonly auth?: AuthProvider;
+  private readonly hooks: TransportHooks;
+  private readonly config: TransportConfig;
+  private network: NetworkConfig;
+  private limiter?: RateLimiter;
+  private inFlight = new Map<string, InFlightRequest>();
+
+  constructor(config: TransportConfig = {}) {
+    this.config = config;
+    this.network = networkConfig(config);
+    this.limiter = config.rateLimit && new RateLimiter(config.rateLimit);
+    this.client = config.axiosInstance ?? axios.create();
+    this.logger = config.logger ?? silentLogger;
+    this.auth = config.auth;
+    this.hooks = config.hooks ?? {};
+    this.timeoutMs = config.timeoutMs ?? REQUEST_TIMEOUT;
+    this.retry = {
+      maxRetries: TRANSPORT_MAX_RETRIES,
+      baseDelayMs: BACKOFF_BASE_DELAY,
+      maxDelayMs: BACKOFF_MAX_DELAY,
+      jitter: true,
+      ...config.retry,
+    };
+  }
+
+  /**
+   * The underlying axios instance, for adding interceptors or defaults.
+   */
+  get axios(): AxiosInstance {
+    return this.client;
+  }
+
+  /**
+   * The tracer spans are created with, if tracing is enabled.
+   */
+  get tracer(): Tracer | undefined {
+    return this.config.tracer;
+  }
+
+  /**
+   * Returns a transport with the same axios instance, timeout, retry policy,
+   * logger and rate limits that authenticates its requests with `auth`.
+   * Connector classes use this to apply their own credentials to a shared
+   * transport.
+   * @param auth - Auth provider for requests sent through the new transport
+   */
+  withAuth(auth: AuthProvider): HttpTransport {
+    const transport = new HttpTransport({
+      ...this.config,
+      axiosInstance: this.client,
+      auth,
+    });
+    // Share the agents, and with them the connection pools, the token buckets
+    // and the requests in flight
+    transport.network = this.network;
+    transport.limiter = this.limiter;
+    transport.inFlight = this.inFlight;
+    return transport;
+  }
+
+  async get<T = any>(
+    url: string,
+    options: TransportRequestOptions = {}
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'get', url });
+  }
+
+  async put<T = any>(
+    url: string,
+    data?: any,
+    options: TransportRequestOptions = {}
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'put', url, data });
+  }
+
+  async post<T = any>(
+    url: string,
+    data?: any,
+    options: TransportRequestOptions = {}
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'post', url, data });
+  }
+
+  /**
+   * Sends a request, or joins an identical one in flight when coalescing
+   * applies. Retries transient failures with exponential backoff.
+   * @param request - Request description
+   * @returns The axios response
+   * @throws ApiError for non-retryable failures
+   * @throws MaxRetriesExceededError once retries are exhausted
+   * @throws AuthenticationError if the auth provider cannot supply credentials
+   * @throws The abort reason if the request is cancelled through its signal
+   */
+  async request<T = any>(request: TransportRequest): Promise<AxiosResponse<T>> {
+    const coalesce =
+      this.config.coalesce !== false &&
+      (request.coalesce ?? request.method.toLowerCase() === 'get');
+    if (!coalesce) return this.send<T>(request);
+    if (request.signal?.aborted) throw request.signal.reason;
+
+    const key = this.requestKey(request);
+    let inFlight = this.inFlight.get(key);
+    let shared = true;
+    if (!inFlight) {
+      shared = false;
+      const controller = new AbortController();
+      const entry: InFlightRequest = {
+        controller,
+        callers: 0,
+        response: this.send({ ...request, signal: controller.signal }).finally(
+          () => {
+            if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+          }
+        ),
+      };
+      inFlight = entry;
+      this.inFlight.set(key, entry);
+    } else {
+      this.logger.debug('Sharing response of identical request', {
+        method: request.method,
+        url: request.url,
+      });
+    }
+    return this.joinInFlight(inFlight, shared, request.signal);
+  }
+
+  /**
+   * Sends a request over the network, waiting for the rate limit and retrying
+   * transient failures with exponential backoff.
+   */
+  private async send<T>(request: TransportRequest): Promise<AxiosResponse<T>> {
+    const maxRetries = request.maxRetries ?? this.retry.maxRetries;
+    const config: AxiosRequestConfig = {
+      ...(request.url.startsWith('https:')
+        ? this.network.https
+        : this.network.http),
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      data: request.data,
+      timeout: request.timeoutMs ?? this.timeoutMs,
+      signal: request.signal,
+    };
+
+    const call = currentCall();
+    const info: RequestInfo = {
+      operation: call?.operation,
+      endpoint: endpointTemplate(request.url),
+      method: request.method.toUpperCase(),
+      url: request.url,
+      deviceId: call?.deviceId,
+      page: call ? ++call.pages : 1,
+      attempt: 0,
+    };
+    const span = this.tracer?.startSpan(
+      `${info.method} ${info.endpoint}`,
+      {
+        'http.request.method': info.method,
+        'url.full': info.url,
+        'iosense.endpoint': info.endpoint,
+        'iosense.page': info.page,
+      },
+      call?.span
+    );
+
+    let attempt = 0;
+    let refreshed = false;
+    let startedAt = Date.now();
+    let status: number | undefined;
+    // Reports a final failure to the hooks and the span, then returns it
+    const failed = (reported: unknown): unknown => {
+      this.emit('onError', {
+        ...info,
+        attempt,
+        status,
+        durationMs: Date.now() - startedAt,
+        error: reported,
+      });
+      if (status !== undefined) {
+        span?.setAttribute('http.response.status_code', status);
+      }
+      span?.setAttribute('iosense.retries', attempt);
+      span?.recordError(reported);
+      span?.end();
+      return reported;
+    };
+
+    for (;;) {
+      let headers: Record<string, string>;
+      try {
+        headers = { ...(await this.auth?.headers()), ...request.headers };
+      } catch (error) {
+        throw failed(error);
+      }
+      if (this.limiter) {
+        let waitedMs: number;
+        try {
+          waitedMs = await this.limiter.take(request.url, request.signal);
+        } catch (abortReason) {
+          throw failed(abortReason);
+        }
+        if (waitedMs > 0) {
+          this.logger.debug('Rate limited request', {
+            method: request.method,
+            url: request.url,
+            waitedMs,
+          });
+        }
+      }
+      this.emit('onRequest', { ...info, attempt });
+      startedAt = Date.now();
+      status = undefined;
+      try {
+        const response = await this.client.request<T>({ ...config, headers });
+        this.emit('onResponse', {
+          ...info,
+          attempt,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+        });
+        span?.setAttribute('http.response.status_code', response.status);
+        span?.setAttribute('iosense.retries', attempt);
+        span?.end();
+        return response;
+      } catch (error: any) {
+        status = error.response?.status;
+        if (request.signal?.aborted || axios.isCancel(error)) {
+          throw failed(request.signal?.reason ?? error);
+        }
+        if (status === 401 && this.auth?.refresh && !refreshed) {
+          refreshed = true;
+          this.logger.debug('Refreshing credentials', {
+            method: request.method,
+            url: request.url,
+          });
+          try {
+            await this.auth.refresh();
+          } catch (refreshError) {
+            throw failed(refreshError);
+          }
+          continue;
+        }
+        if (!this.isRetryable(error)) {
+          throw failed(ApiError.fromAxiosError(error, request.url));
+        }
+        if (attempt >= maxRetries) {
+          throw failed(
+            maxRetries > 0
+              ? new MaxRetriesExceededError(request.url, attempt + 1, error)
+              : ApiError.fromAxiosError(error, request.url)
+          );
+        }
+        attempt++;
+        const delayMs = Math.round(this.backoffDelay(attempt));
+        this.logger.warn('Retrying request', {
+          method: request.method,
+          url: request.url,
+          status,
+          attempt,
+          delayMs,
+        });
+        this.emit('onRetry', { ...info, attempt, status, delayMs, error });
+        try {
+          await this.sleep(delayMs, request.signal);
+        } catch (abortReason) {
+          throw failed(abortReason);
+        }
+      }
+    }
+  }
+
+  /**
+   * Waits for a request in flight on behalf of one caller. When the caller
+   * aborts it stops waiting; the request itself is aborted once no caller is
+   * left. Callers that joined later get their own copy of the body, made
+   * before the first caller can change it.
+   */
+  private joinInFlight(
+    inFlight: InFlightRequest,
+    copy: boolean,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse> {
+    inFlight.callers++;
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        if (--inFlight.callers === 0) inFlight.controller.abort(signal?.reason);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      inFlight.response.then(
+        response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(
+            copy
+              ? { ...response, data: structuredClone(response.data) }
+              : response
+          );
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Identifies a request for coalescing: method, URL, params, body, headers
+   * and the auth provider.
+   */
+  private requestKey(request: TransportRequest): string {
+    let authId = 0;
+    if (this.auth) {
+      authId = authIds.get(this.auth) ?? nextAuthId++;
+      authIds.set(this.auth, authId);
+    }
+    return JSON.stringify([
+      authId,
+      request.method.toUpperCase(),
+      request.url,
+      request.params ?? null,
+      request.data ?? null,
+      request.headers ?? null,
+      request.timeoutMs ?? null,
+      request.maxRetries ?? null,
+    ]);
+  }
+
+  /**
+   * Calls a hook; a failing hook is logged and never fails the request.
+   */
+  private emit<K extends keyof TransportHooks>(
+    hook: K,
+    info: Parameters<NonNullable<TransportHooks[K]>>[0]
+  ): void {
+    const handler = this.hooks[hook] as ((info: unknown) => void) | undefined;
+    if (!handler) return;
+    try {
+      handler.call(this.hooks, info);
+    } catch (error) {
+      this.logger.warn('Transport hook failed', { hook, error });
+    }
+  }
+
+  /**
+   * Computes the wait before the given retry attempt (1-based).
+   */
+  private backoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.retry;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    // "Equal jitter": keep at least half of the delay, randomise the rest
+    return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+  }
+
+  private isRetryable(error: any): boolean {
+    if (!axios.isAxiosError(error)) return false;
+
+    const status = error.response?.status;
+    if (status === undefined) return true; // network error or timeout
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Axios options for plain and TLS requests: the agent carrying the CA and
+ * certificate check settings, and the proxy. Axios forwards plain requests
+ * to a proxy itself; HTTPS requests go through a tunnelling agent instead.
+ */
+function networkConfig(config: TransportConfig): NetworkConfig {
+  const tls: HttpsAgentOptions = {};
+  if (config.ca !== undefined) tls.ca = config.ca;
+  if (config.rejectUnauthorized !== undefined) {
+    tls.rejectUnauthorized = config.rejectUnauthorized;
+  }
+
+  if (typeof config.proxy === 'string') {
+    return {
+      http: { proxy: parseProxy(config.proxy) },
+      https: {
+        proxy: false,
+        httpsAgent: new HttpsProxyAgent(config.proxy, tls),
+      },
+    };
+  }
+  const https: AxiosRequestConfig =
+    Object.keys(tls).length > 0 ? { httpsAgent: new HttpsAgent(tls) } : {};
+  if (config.proxy === false) {
+    return { http: { proxy: false }, https: { ...https, proxy: false } };
+  }
+  return { http: {}, https };
+}
+
+function parseProxy(proxy: string): AxiosProxyConfig {
+  let url: URL;
+  try {
+    url = new URL(proxy);
+  } catch {
+    throw new ValidationError(
+      'Invalid proxy URL; expected e.g. "http://proxy:3128"'
+    );
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError(
+      `Proxy must use http or https (got "${url.protocol.slice(0, -1)}")`
+    );
+  }
+  return {
+    protocol: url.protocol.slice(0, -1),
+    host: url.hostname,
+    port: url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80,
+    auth: url.username
+      ? {
+          username: decodeURIComponent(url.username),
+          password: decodeURIComponent(url.password),
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ApiError,
+  AuthenticationError,
+  DataAccess,
+  EventsHandler,
+  createBearerTokenAuth,
+  createHeaderAuth
+} from '../dist/index.js';
+import { DEVICE_ID, MINUTE, T0, USER_ID, startServer } from './helpers.mjs';
+
+describe('userID header', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({ pageSize: 100 }));
+  });
+
+  after(() => server.stop());
+
+  it('is sent with every request, including data queries', async () => {
+    const dataAccess = new DataAccess(config);
+    const before = server.requests.length;
+
+    await dataAccess.dataQuery({ deviceId: DEVICE_ID, sensorList: ['D1'], startTime: T0, endTime: T0 + 60 * MINUTE });
+
+    const sent = server.requests.slice(before);
+    assert.ok(sent.some(r => r.path === '/api/apiLayer/getAllData'));
+    assert.ok(sent.every(r => r.headers.userid === USER_ID));
+  });
+
+  it('is rejected when it does not match', async () => {
+    const dataAccess = new DataAccess({ ...config, userId: 'someone-else' });
+
+    await assert.rejects(dataAccess.getDeviceMetaData(DEVICE_ID), err => err instanceof ApiError && err.status === 401);
+  });
+
+  it("applies each handler's own credentials on a shared transport", async () => {
+    const custom = new EventsHandler({ ...config, auth: createHeaderAuth({ 'x-api-key': 'k1', userID: USER_ID }) });
+    const before = server.requests.length;
+
+    await custom.getEventCategories();
+    await new DataAccess(config).getUserInfo();
+
+    const [first, second] = server.requests.slice(before);
+    assert.equal(first.headers['x-api-key'], 'k1');
+    assert.equal(second.headers['x-api-key'], undefined);
+  });
+});
+
+describe('bearer tokens', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({ token: 't1' }));
+  });
+
+  after(() => server.stop());
+
+  it('refreshes once on 401 and repeats the request', async () => {
+    let refreshes = 0;
+    const auth = createBearerTokenAuth({ token: 'expired', refresh: async () => { refreshes++; return 't1'; } });
+    const dataAccess = new DataAccess({ ...config, auth });
+    const before = server.requests.length;
+
+    const metadata = await dataAccess.getDeviceMetaData(DEVICE_ID);
+
+    assert.equal(metadata.sensors.length, 3);
+    assert.equal(refreshes, 1);
+    const sent = server.requests.slice(before).map(r => r.headers.authorization);
+    assert.deepEqual(sent, ['Bearer expired', 'Bearer t1']);
+  });
+
+  it('fetches the first token once for concurrent requests', async () => {
+    let refreshes = 0;
+    const auth = createBearerTokenAuth({
+      refresh: async () => {
+        refreshes++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return 't1';
+      }
+    });
+    const dataAccess = new DataAccess({ ...config, auth, cacheTtlMs: 0 });
+
+    await Promise.all([dataAccess.getUserInfo(), dataAccess.getDeviceDetails(), dataAccess.getDeviceMetaData(DEVICE_ID)]);
+
+    assert.equal(refreshes, 1);
+  });
+
+  it('renews a token before it expires', async () => {
+    server.token = 't2';
+    const auth = createBearerTokenAuth({ token: 't1', expiresAt: Date.now() + 1000, refresh: () => ({ token: 't2' }) });
+    const before = server.requests.length;
+
+    await new DataAccess({ ...config, auth }).getUserInfo();
+
+    const sent = server.requests.slice(before).map(r => r.headers.authorization);
+    assert.deepEqual(sent, ['Bearer t2']);
+    server.token = 't1';
+  });
+
+  it('throws AuthenticationError when the refresh callback fails', async () => {
+    const auth = createBearerTokenAuth({ refresh: async () => { throw new Error('login failed'); } });
+    const dataAccess = new DataAccess({ ...config, auth });
+
+    await assert.rejects(dataAccess.getUserInfo(), err => err instanceof AuthenticationError && err.cause.message === 'login failed');
+  });
+
+  it('surfaces a 401 without a refresh callback', async () => {
+    const auth = createBearerTokenAuth({ token: 'wrong' });
+    const dataAccess = new DataAccess({ ...config, auth });
+
+    await assert.rejects(dataAccess.getUserInfo(), err => err instanceof ApiError && err.status === 401);
+  });
+});
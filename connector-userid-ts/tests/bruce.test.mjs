@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiError, BruceHandler, DataAccess } from '../dist/index.js';
+import { startServer } from './helpers.mjs';
+
+const insights = Array.from({ length: 12 }, (_, i) => ({ _id: `ui-${i}`, insightName: `Insight ${i}` }));
+const results = Array.from({ length: 5 }, (_, i) => ({ _id: `res-${i}`, insightID: 'INS_1', value: i }));
+
+describe('BruceHandler against the mock server', () => {
+  let server;
+  let bruce;
+
+  before(async () => {
+    let config;
+    ({ server, config } = await startServer({
+      dataset: {
+        insights,
+        sourceInsights: { INS_1: { _id: 'src-1', insightID: 'INS_1', insightName: 'Cycle time' } },
+        insightResults: { INS_1: results }
+      }
+    }));
+    bruce = new BruceHandler({ ...config, dataAccess: new DataAccess(config) });
+  });
+
+  after(() => server.stop());
+
+  it('fetches one page of user insights', async () => {
+    const page = await bruce.fetchUserInsights({ pagination: { page: 2, count: 5 } });
+    assert.deepEqual(page.map(insight => insight._id), ['ui-5', 'ui-6', 'ui-7', 'ui-8', 'ui-9']);
+  });
+
+  it('fetches a source insight with the user organisation', async () => {
+    const insight = await bruce.getSourceInsight({ insightId: 'INS_1' });
+    assert.equal(insight.insightName, 'Cycle time');
+    const request = server.requestsTo('/api/bruce/userInsight/fetch/getSourceInsight/').at(-1);
+    assert.equal(request.body.user.organisation, 'mock-org');
+  });
+
+  it('returns insight results with their total count', async () => {
+    const response = await bruce.fetchInsightResults({ insightId: 'INS_1', pagination: { page: 1, count: 2 } });
+    assert.deepEqual(response.results.map(result => result.value), [0, 1]);
+    assert.equal(response.totalCount, 5);
+  });
+
+  it('throws ApiError for unknown insights', async () => {
+    await assert.rejects(bruce.getSourceInsight({ insightId: 'INS_404' }), ApiError);
+  });
+});
@@ -0,0 +1,98 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEVICE_ID, MINUTE, T0, USER_ID, startServer } from './helpers.mjs';
+
+const CLI = new URL('../dist/cli/index.js', import.meta.url).pathname;
+
+function run(args, env = {}) {
+  return new Promise(resolve => {
+    execFile(process.execPath, [CLI, ...args], { env: { PATH: process.env.PATH, ...env }, timeout: 20000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+describe('iosense CLI', () => {
+  let server;
+  let env;
+  let dir;
+
+  before(async () => {
+    ({ server } = await startServer({ pageSize: 100 }));
+    env = { IOSENSE_USER_ID: USER_ID, IOSENSE_DATA_URL: server.host, IOSENSE_ON_PREM: 'true' };
+    dir = await mkdtemp(join(tmpdir(), 'iosense-cli-'));
+  });
+
+  after(async () => {
+    await server.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('lists the sensors of a device as a table', async () => {
+    const { code, stdout } = await run(['metadata', DEVICE_ID], env);
+
+    assert.equal(code, 0);
+    const lines = stdout.trim().split('\n');
+    assert.match(lines[0], /^sensorId\s+sensorName\s+unit$/);
+    assert.match(lines[2], /^D1\s+Mould Temperature/);
+    assert.equal(lines.length, 5);
+  });
+
+  it('queries data by sensor name as CSV', async () => {
+    const { code, stdout } = await run(
+      ['query', DEVICE_ID, '--from', String(T0), '--to', String(T0 + 60 * MINUTE), '--sensors', 'Shot Count', '--time-format', 'unix', '-f', 'csv'],
+      env
+    );
+
+    assert.equal(code, 0);
+    const lines = stdout.trim().split('\n');
+    assert.equal(lines[0], 'timestamp,D3');
+    assert.equal(lines.length, 61);
+    assert.equal(lines[1], `${T0},100`);
+  });
+
+  it('keeps --verbose logs out of the data on stdout', async () => {
+    const { code, stdout, stderr } = await run(
+      ['query', DEVICE_ID, '--from', String(T0), '--to', String(T0 + 60 * MINUTE), '--sensors', 'D3', '-f', 'csv', '--verbose'],
+      env
+    );
+
+    assert.equal(code, 0);
+    assert.equal(stdout.trim().split('\n').length, 61);
+    assert.doesNotMatch(stdout, /\[DEBUG\]/);
+    assert.match(stderr, /\[DEBUG\] API response/);
+  });
+
+  it('reads credentials from a profile file', async () => {
+    const config = join(dir, 'config.json');
+    await writeFile(config, JSON.stringify({ profiles: { plant: { userId: USER_ID, dataUrl: server.host, onPrem: true } } }));
+
+    const { code, stdout } = await run(['devices', '--config', config, '--profile', 'plant', '--format', 'json']);
+
+    assert.equal(code, 0);
+    assert.deepEqual(JSON.parse(stdout).map(d => d.devID), [DEVICE_ID]);
+  });
+
+  it('exits with 2 and a message for missing credentials and unknown profiles', async () => {
+    const missing = await run(['devices']);
+    assert.equal(missing.code, 2);
+    assert.match(missing.stderr, /userId is required/);
+
+    const config = join(dir, 'empty.json');
+    await writeFile(config, JSON.stringify({ profiles: { cloud: {} } }));
+    const unknown = await run(['devices', '--config', config, '--profile', 'staging']);
+    assert.equal(unknown.code, 2);
+    assert.match(unknown.stderr, /Profile "staging" not found .*available: cloud/);
+  });
+
+  it('exits with 1 when a request fails', async () => {
+    const { code, stderr } = await run(['metadata', 'UNKNOWN'], env);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /^iosense: /);
+  });
+});
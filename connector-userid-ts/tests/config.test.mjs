@@ -0,0 +1,151 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, IosenseClient, loadProfile, profileConnection } from '../dist/index.js';
+import { DEVICE_ID, USER_ID, startServer } from './helpers.mjs';
+
+const YAML = `
+default: cloud
+profiles:
+  cloud:
+    userId: ${USER_ID}
+    dataUrl: datads.iosense.io
+    tz: Asia/Kolkata
+  plant-a:
+    userId: ${USER_ID}
+    dataUrl: "10.0.0.5:8080"
+    onPrem: true
+    mqtt: { broker: 10.0.0.5 }
+`;
+
+describe('loadProfile', () => {
+  let dir;
+  let file;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'iosense-config-'));
+    file = join(dir, 'config.yaml');
+    await writeFile(file, YAML);
+    await writeFile(join(dir, 'empty.json'), '{ "profiles": {} }');
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('reads the default profile of a YAML file', async () => {
+    const profile = await loadProfile({ file, env: {} });
+
+    assert.deepEqual(profile, { userId: USER_ID, dataUrl: 'datads.iosense.io', tz: 'Asia/Kolkata' });
+  });
+
+  it('applies profile variables over the file over global variables', async () => {
+    const env = {
+      IOSENSE_PROFILE: 'plant-a',
+      IOSENSE_DATA_URL: 'ignored:1',
+      IOSENSE_PLANT_A_DATA_URL: '10.0.0.6:8080',
+      IOSENSE_TZ: 'UTC',
+      IOSENSE_MQTT_PORT: '1884'
+    };
+
+    const profile = await loadProfile({ file, env, overrides: { tz: 'Asia/Kolkata', userId: undefined } });
+
+    assert.equal(profile.dataUrl, '10.0.0.6:8080');
+    assert.equal(profile.tz, 'Asia/Kolkata');
+    assert.equal(profile.userId, USER_ID);
+    assert.deepEqual(profile.mqtt, { broker: '10.0.0.5', port: 1884 });
+  });
+
+  it('keeps the file values of a named profile over global variables', async () => {
+    const env = { IOSENSE_USER_ID: 'other-user', IOSENSE_DATA_URL: 'datads.iosense.io', IOSENSE_TZ: 'UTC' };
+
+    const profile = await loadProfile({ file, profile: 'plant-a', env });
+
+    assert.equal(profile.userId, USER_ID);
+    assert.equal(profile.dataUrl, '10.0.0.5:8080');
+    assert.equal(profile.tz, 'UTC');
+  });
+
+  it('builds a profile from the environment alone', async () => {
+    const profile = await loadProfile({ file: join(dir, 'empty.json'), env: { IOSENSE_USER_ID: 'u', IOSENSE_DATA_URL: 'host', IOSENSE_ON_PREM: 'yes' } });
+
+    assert.deepEqual(profile, { userId: 'u', dataUrl: 'host', onPrem: true });
+  });
+
+  it('lists the available profiles for an unknown name', async () => {
+    await assert.rejects(loadProfile({ file, profile: 'staging', env: {} }), err =>
+      err instanceof ConfigError && err.profile === 'staging' && /available: cloud, plant-a/.test(err.message)
+    );
+  });
+
+  it('reports every invalid setting at once', async () => {
+    const bad = join(dir, 'bad.json');
+    await writeFile(bad, JSON.stringify({ profiles: { default: { userID: 'u', dataUrl: 'https://host', onPrem: 'no', tz: 'Mars/Base' } } }));
+
+    await assert.rejects(loadProfile({ file: bad, env: {} }), err => {
+      assert.ok(err instanceof ConfigError);
+      assert.equal(err.source, bad);
+      assert.deepEqual(err.problems, [
+        'unknown setting "userID" (did you mean "userId"?)',
+        'userId is required (set IOSENSE_USER_ID or add it to the profile)',
+        'dataUrl must be a host without protocol (got "https://host"); use baseUrl for a full URL',
+        'onPrem must be true or false',
+        'tz "Mars/Base" is not a known IANA timezone'
+      ]);
+      return true;
+    });
+  });
+
+  it('accepts a base URL in place of dataUrl', async () => {
+    const env = { IOSENSE_USER_ID: 'u', IOSENSE_BASE_URL: 'https://iosense.plant.local:8443/iosense', IOSENSE_PROXY: 'http://proxy:3128' };
+
+    const connection = profileConnection(await loadProfile({ file: join(dir, 'empty.json'), env }));
+
+    assert.equal(connection.dataUrl, 'iosense.plant.local:8443');
+    assert.equal(connection.baseUrl, 'https://iosense.plant.local:8443/iosense');
+    assert.equal(connection.proxy, 'http://proxy:3128');
+    await assert.rejects(
+      loadProfile({ file: join(dir, 'empty.json'), env: { ...env, IOSENSE_BASE_URL: 'ftp://host', IOSENSE_PROXY: 'proxy:3128' } }),
+      err => err instanceof ConfigError && err.problems.length === 2
+    );
+  });
+
+  it('reads the rate limit as requests per second', async () => {
+    const env = { IOSENSE_USER_ID: 'u', IOSENSE_DATA_URL: 'h', IOSENSE_RATE_LIMIT: '2.5' };
+
+    const connection = profileConnection(await loadProfile({ file: join(dir, 'empty.json'), env }));
+
+    assert.deepEqual(connection.rateLimit, { requestsPerSecond: 2.5 });
+    await assert.rejects(
+      loadProfile({ file: join(dir, 'empty.json'), env: { ...env, IOSENSE_RATE_LIMIT: 'fast' } }),
+      /rateLimit must be a positive number/
+    );
+  });
+
+  it('names the file when it cannot be parsed', async () => {
+    const broken = join(dir, 'broken.yaml');
+    await writeFile(broken, 'profiles: [unclosed');
+
+    await assert.rejects(loadProfile({ file: broken, env: {} }), err => err instanceof ConfigError && err.message.includes(broken));
+  });
+});
+
+describe('IosenseClient.fromProfile', () => {
+  let server;
+
+  before(async () => {
+    ({ server } = await startServer());
+  });
+
+  after(() => server.stop());
+
+  it('connects with the resolved profile', async () => {
+    const env = { IOSENSE_USER_ID: USER_ID, IOSENSE_DATA_URL: server.host, IOSENSE_ON_PREM: 'true', IOSENSE_CONFIG: '/nonexistent/config.json' };
+
+    await assert.rejects(IosenseClient.fromProfile({ env }), ConfigError);
+
+    const client = await IosenseClient.fromProfile({ env: { ...env, IOSENSE_CONFIG: undefined }, file: undefined });
+    const metadata = await client.data.getDeviceMetaData(DEVICE_ID);
+    assert.equal(metadata.sensors.length, 3);
+  });
+});
@@ -0,0 +1,468 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataAccess, DeviceNotFoundError, HttpTransport, MemoryCacheStore, SensorNotFoundError, resample } from '../dist/index.js';
+import { DEVICE_ID, MINUTE, T0, startServer } from './helpers.mjs';
+
+describe('DataAccess against the mock server', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({ pageSize: 25 }));
+  });
+
+  after(() => server.stop());
+
+  const query = (dataAccess, options = {}) =>
+    dataAccess.dataQuery({
+      deviceId: DEVICE_ID,
+      startTime: T0,
+      endTime: T0 + 60 * MINUTE,
+      ...options
+    });
+
+  describe('pagination', () => {
+    it('walks the getAllData cursor and returns every row once', async () => {
+      const dataAccess = new DataAccess(config);
+      const before = server.requestsTo('/api/apiLayer/getAllData').length;
+      const rows = await query(dataAccess, { cal: false });
+
+      assert.equal(rows.length, 60);
+      assert.equal(new Set(rows.map(row => row.timestamp)).size, 60);
+      // 180 datapoints in pages of at most 25 (27 when a timestamp would be split)
+      assert.ok(server.requestsTo('/api/apiLayer/getAllData').length - before >= 7);
+    });
+
+    it('yields one batch per page from dataQueryStream', async () => {
+      const dataAccess = new DataAccess(config);
+      const batches = [];
+      for await (const batch of dataAccess.dataQueryStream({
+        deviceId: DEVICE_ID,
+        sensorList: ['D1'],
+        startTime: T0,
+        endTime: T0 + 60 * MINUTE
+      })) {
+        batches.push(batch);
+      }
+      assert.ok(batches.length > 1);
+      assert.equal(batches.flat().length, 60);
+    });
+
+    it('follows the getDp cursor until the requested count is reached', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await dataAccess.getDp({
+        deviceId: DEVICE_ID,
+        sensorList: ['D3'],
+        n: 40,
+        endTime: T0 + 59 * MINUTE,
+        cal: false
+      });
+      assert.equal(rows.length, 40);
+      assert.equal(rows[0].value, '159');
+    });
+  });
+
+  describe('pivoting', () => {
+    it('returns one row per timestamp with a column per sensor', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { cal: false, unix: true });
+
+      assert.deepEqual(rows[3], { timestamp: T0 + 3 * MINUTE, D1: '3', D2: '3', D3: '103' });
+      assert.ok(rows.every((row, i) => i === 0 || row.timestamp > rows[i - 1].timestamp));
+    });
+
+    it('keeps rows intact across page boundaries when resampling', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, {
+        sensorList: ['D3'],
+        cal: false,
+        unix: true,
+        resample: { interval: '15m', agg: 'count' }
+      });
+      assert.deepEqual(
+        rows.map(row => row.D3),
+        [15, 15, 15, 15]
+      );
+    });
+  });
+
+  describe('calibration', () => {
+    it('applies linear and lookup calibration from metadata params', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { unix: true });
+      const row = rows.find(r => r.timestamp === T0 + 5 * MINUTE);
+
+      assert.equal(row.D1, 11); // 5 * 2 + 1
+      assert.equal(row.D2, 50); // 5 on a 0:0,10:100 table
+      assert.equal(row.D3, '105'); // not calibrated
+    });
+
+    it('returns raw values next to calibrated ones', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { sensorList: ['D1'], rawValues: true, unix: true });
+      assert.deepEqual(rows[2], { timestamp: T0 + 2 * MINUTE, D1: 5, D1_raw: '2' });
+    });
+
+    it('leaves values untouched with cal: false', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { sensorList: ['D1'], cal: false });
+      assert.equal(rows[5].D1, '5');
+    });
+  });
+
+  describe('aliasing', () => {
+    it('renames pivoted columns to sensor names', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { alias: true, cal: false });
+      assert.deepEqual(Object.keys(rows[0]), ['timestamp', 'Mould Temperature', 'Pressure', 'Shot Count']);
+    });
+
+    it('renames the sensor field of long rows', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await dataAccess.getFirstDp({
+        deviceId: DEVICE_ID,
+        sensorList: ['D1', 'D3'],
+        startTime: T0 + 10 * MINUTE,
+        alias: true,
+        cal: false
+      });
+      assert.deepEqual(
+        rows.map(row => [row.sensor, row.value]),
+        [['Mould Temperature', '10'], ['Shot Count', '110']]
+      );
+    });
+
+    it('accepts sensor names in sensorList', async () => {
+      const dataAccess = new DataAccess(config);
+      const rows = await query(dataAccess, { sensorList: ['shot count', 'D1'], cal: false });
+      assert.deepEqual(Object.keys(rows[0]).sort(), ['D1', 'D3', 'timestamp']);
+      assert.equal(server.requestsTo('/api/apiLayer/getAllData').at(-1).query.sensor, 'D3,D1');
+    });
+
+    it('suggests close matches for unknown sensor names', async () => {
+      const dataAccess = new DataAccess(config);
+      await assert.rejects(query(dataAccess, { sensorList: ['Mold Temprature'] }), error => {
+        assert.ok(error instanceof SensorNotFoundError);
+        assert.deepEqual(error.suggestions, ['Mould Temperature (D1)']);
+        return true;
+      });
+    });
+
+    it('resolves sensor names in operation data filters', async () => {
+      const dataAccess = new DataAccess(config);
+      // The mock does not serve operation data; the request is what matters here
+      await assert.rejects(
+        dataAccess.getFilteredOperationData({
+          deviceId: DEVICE_ID,
+          sensorList: ['Pressure'],
+          startTime: T0,
+          endTime: T0 + 60 * MINUTE,
+          filter: [
+            { sensor: 'shot count', operator: '>', value: 110 },
+            { sensor: 'D3', operator: '<', value: 150 }
+          ]
+        })
+      );
+      const { body } = server.requestsTo('/api/consumption/getOperationDataWithTime').at(-1);
+      assert.deepEqual(body.sensorList, ['D2']);
+      assert.deepEqual(body.filter.map(condition => condition.sensor), ['D3', 'D3']);
+    });
+  });
+
+  describe('metadata', () => {
+    it('caches device metadata between queries', async () => {
+      const dataAccess = new DataAccess(config);
+      const before = server.requestsTo('/api/metaData/device/').length;
+      await query(dataAccess, { sensorList: ['D1'] });
+      await query(dataAccess, { sensorList: ['D2'] });
+      assert.equal(server.requestsTo('/api/metaData/device/').length - before, 1);
+    });
+
+    it('returns copies of cached metadata', async () => {
+      const dataAccess = new DataAccess(config);
+      const before = server.requestsTo('/api/metaData/device/').length;
+
+      const first = await dataAccess.getDeviceMetaData(DEVICE_ID);
+      first.sensors.push({ sensorId: 'D9', sensorName: 'Added' });
+      first.params.D1 = [];
+      const second = await dataAccess.getDeviceMetaData(DEVICE_ID);
+      second.sensors.length = 0;
+      const third = await dataAccess.getDeviceMetaData(DEVICE_ID);
+
+      assert.equal(server.requestsTo('/api/metaData/device/').length - before, 1);
+      assert.deepEqual(third.sensors.map(sensor => sensor.sensorId), ['D1', 'D2', 'D3']);
+      assert.equal(third.params.D1.length, 2);
+    });
+
+    it('keeps the cache of instances with different base URLs apart', async () => {
+      const cacheStore = new MemoryCacheStore();
+      const before = server.requestsTo('/api/metaData/device/').length;
+      await query(new DataAccess({ ...config, cacheStore }), { sensorList: ['D1'] });
+      await query(new DataAccess({ ...config, cacheStore, baseUrl: server.url }), { sensorList: ['D1'] });
+      assert.equal(server.requestsTo('/api/metaData/device/').length - before, 2);
+    });
+
+    it('throws DeviceNotFoundError for devices outside the account', async () => {
+      const dataAccess = new DataAccess(config);
+      await assert.rejects(query(dataAccess, { deviceId: 'UNKNOWN' }), DeviceNotFoundError);
+    });
+  });
+});
+
+describe('multiDeviceQuery', () => {
+  const MACHINES = ['M1', 'M2', 'M3'];
+  // 30 minutes of D1 per machine, 5 datapoints per page
+  const PAGES = 6;
+  let server;
+  let config;
+
+  before(async () => {
+    const metadata = {};
+    const data = {};
+    MACHINES.forEach((deviceId, m) => {
+      metadata[deviceId] = { sensors: [{ sensorId: 'D1', sensorName: 'Temperature' }] };
+      data[deviceId] = Array.from({ length: 30 }, (_, i) => ({
+        time: new Date(T0 + i * MINUTE).toISOString(),
+        sensor: 'D1',
+        value: String(100 * (m + 1) + i)
+      }));
+    });
+    ({ server, config } = await startServer({ pageSize: 5, dataset: { metadata, data } }));
+  });
+
+  after(() => server.stop());
+
+  const pageDevices = since => server.requests.slice(since).filter(r => r.path === '/api/apiLayer/getAllData').map(r => r.query.device);
+  const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+  const query = (options, dataAccessOptions = {}) =>
+    new DataAccess({ ...config, ...dataAccessOptions }).multiDeviceQuery({
+      devices: [{ deviceId: 'M1' }, { deviceId: 'M2' }],
+      startTime: T0,
+      endTime: T0 + 29 * MINUTE,
+      cal: false,
+      ...options
+    });
+
+  it('merges the rows of every device in time order', async () => {
+    const rows = await query({ timeFormat: 'unix' });
+
+    assert.equal(rows.length, 60);
+    assert.deepEqual(rows.slice(0, 2), [
+      { time: T0, deviceId: 'M1', sensor: 'D1', value: '100' },
+      { time: T0, deviceId: 'M2', sensor: 'D1', value: '200' }
+    ]);
+    assert.equal(rows.at(-1).time, T0 + 29 * MINUTE);
+  });
+
+  it('joins the devices on a resampled time axis in the wide format', async () => {
+    const rows = await query({ format: 'wide', resample: { interval: '15m', agg: 'max' }, alias: true, timeFormat: 'unix' });
+
+    assert.deepEqual(rows, [
+      { timestamp: T0, 'M1.Temperature': 114, 'M2.Temperature': 214 },
+      { timestamp: T0 + 15 * MINUTE, 'M1.Temperature': 129, 'M2.Temperature': 229 }
+    ]);
+  });
+
+  it('queries at most concurrency devices at once', async () => {
+    const since = server.requests.length;
+
+    await query({ devices: MACHINES.map(deviceId => ({ deviceId })), concurrency: 2 });
+
+    // M3 starts once M1, the first device, is done
+    const devices = pageDevices(since);
+    assert.equal(devices.length, 3 * PAGES);
+    assert.ok(devices.indexOf('M3') > devices.lastIndexOf('M1'));
+
+    const serial = server.requests.length;
+    await query({ devices: MACHINES.map(deviceId => ({ deviceId })), concurrency: 1 });
+    assert.deepEqual(pageDevices(serial), MACHINES.flatMap(deviceId => Array(PAGES).fill(deviceId)));
+  });
+
+  it('fails as a whole and cancels the other devices when one fails', async () => {
+    const since = server.requests.length;
+
+    await assert.rejects(query({ devices: [{ deviceId: 'UNKNOWN' }, { deviceId: 'M1' }] }), DeviceNotFoundError);
+    await settle();
+
+    // At most the page M1 had in flight, instead of all of them
+    assert.ok(pageDevices(since).length <= 1);
+    assert.deepEqual(await query({ devices: [{ deviceId: 'UNKNOWN' }, { deviceId: 'M1' }] }, { legacyErrors: true }), []);
+  });
+
+  it('stops every device when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const transport = new HttpTransport({
+      hooks: { onResponse: info => info.endpoint === '/api/apiLayer/getAllData' && controller.abort(new Error('stop')) }
+    });
+    const since = server.requests.length;
+
+    await assert.rejects(query({ signal: controller.signal, concurrency: 2 }, { transport }));
+    await settle();
+
+    // The first page of each device at most
+    assert.ok(pageDevices(since).length <= 2);
+  });
+});
+
+describe('getClusterData', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({
+      dataset: {
+        clusters: [{ id: 'C1', name: 'Energy HT' }, { id: 'C2', name: 'Energy LT' }],
+        clusterData: {
+          C1: [
+            { time: new Date(T0).toISOString(), value: '10.5' },
+            { time: (T0 + 60 * MINUTE) / 1000, value: 11 },
+            { time: String(T0 + 120 * MINUTE), value: 12 },
+            { time: '2024-05-01 08:30:00', value: 13 },
+            { time: 'yesterday', value: 14 },
+            { time: null, value: 15 }
+          ],
+          C2: 42
+        }
+      }
+    }));
+  });
+
+  after(() => server.stop());
+
+  it('reads epoch seconds, milliseconds and ISO times and skips unreadable ones', async () => {
+    const warnings = [];
+    const logger = { debug() {}, info() {}, error() {}, warn: (message, fields) => warnings.push(fields) };
+    const dataAccess = new DataAccess({ ...config, tz: 'Asia/Kolkata', logger });
+
+    const rows = await dataAccess.getClusterData({ cluster: 'Energy HT', startTime: T0, endTime: T0 + 180 * MINUTE, periodicity: 'hour', unix: true });
+
+    assert.deepEqual(rows, [
+      { time: T0, cluster: 'Energy HT', value: 10.5 },
+      { time: T0 + 60 * MINUTE, cluster: 'Energy HT', value: 11 },
+      { time: T0 + 120 * MINUTE, cluster: 'Energy HT', value: 12 },
+      { time: T0 + 180 * MINUTE, cluster: 'Energy HT', value: 13 }
+    ]);
+    assert.deepEqual(warnings.map(fields => fields.time), ['yesterday', null]);
+    const { body } = server.requestsTo('/api/widget/clusterData').at(-1);
+    assert.deepEqual([body.clusterID, body.periodicity, body.timezone], ['C1', 'hour', 'Asia/Kolkata']);
+  });
+
+  it('returns a total as one row at the start of the range', async () => {
+    const rows = await new DataAccess(config).getClusterData({ cluster: 'C2', startTime: T0, endTime: T0 + 60 * MINUTE });
+
+    assert.deepEqual(rows, [{ time: new Date(T0).toISOString(), cluster: 'Energy LT', value: 42 }]);
+  });
+});
+
+describe('fireUserTrigger', () => {
+  const TRIGGER = '/api/expression-schedular/user-trigger-with-title';
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer());
+  });
+
+  after(() => server.stop());
+
+  it('returns the response when it carries no run ID', async () => {
+    server.fail(TRIGGER, { status: 200, body: { success: true, message: 'Triggered' } });
+
+    const run = await new DataAccess(config).fireUserTrigger({ title: 'Defect rate above limit', payload: { defectRate: 0.042 } });
+
+    assert.equal(run.runId, undefined);
+    assert.equal(run.title, 'Defect rate above limit');
+    assert.deepEqual(run.response, { success: true, message: 'Triggered' });
+    assert.deepEqual(server.requestsTo(TRIGGER).at(-1).body, { title: 'Defect rate above limit', payload: { defectRate: 0.042 } });
+  });
+
+  it('does not retry a failed request', async () => {
+    const before = server.requestsTo(TRIGGER).length;
+    server.fail(TRIGGER);
+
+    await assert.rejects(new DataAccess(config).fireUserTrigger({ title: 'Defect rate above limit' }));
+    assert.equal(server.requestsTo(TRIGGER).length - before, 1);
+  });
+});
+
+describe('getConsumption', () => {
+  const METER = 'EM_01';
+  const HOUR = 60 * MINUTE;
+  // Energy counter read every 10-20 minutes: reset to zero during the second
+  // hour and again between the second and third
+  const readings = [
+    [-10, 5],
+    [10, 10], [30, 20], [50, 30],
+    [70, 40], [80, 45], [90, 3], [110, 8],
+    [130, 2], [150, 6]
+  ];
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({
+      dataset: {
+        metadata: { [METER]: { sensors: [{ sensorId: 'E', sensorName: 'Energy' }] } },
+        data: {
+          [METER]: readings.map(([minute, value]) => ({
+            time: new Date(T0 + minute * MINUTE).toISOString(),
+            sensor: 'E',
+            value: String(value)
+          }))
+        }
+      }
+    }));
+  });
+
+  after(() => server.stop());
+
+  const consumption = options =>
+    new DataAccess(config).getConsumption({
+      deviceId: METER,
+      startTime: T0,
+      endTime: T0 + 3 * HOUR,
+      period: 'hour',
+      cal: false,
+      ...options
+    });
+
+  it('requests the start and end datapoints of each period', async () => {
+    const rows = await consumption({ timeFormat: 'unix' });
+
+    assert.deepEqual(rows.map(row => row.time), [T0, T0 + HOUR, T0 + 2 * HOUR]);
+    assert.equal(server.requestsTo('/api/apiLayer/getStartEndDPV2').length, 3);
+    assert.equal(server.requestsTo('/api/apiLayer/getAllData').length, 0);
+  });
+
+  it('starts each period at the end value of the one before', async () => {
+    const [first, second] = await consumption();
+
+    assert.deepEqual([first.startValue, first.endValue, first.consumption], [10, 30, 20]);
+    assert.equal(second.startValue, 30);
+  });
+
+  it('counts the usage after a reset within and between periods', async () => {
+    const [, second, third] = await consumption({ alias: true });
+
+    assert.equal(second.sensor, 'Energy');
+    assert.deepEqual([second.reset, second.consumption], [true, 10 + 8]);
+    assert.deepEqual([third.startValue, third.reset, third.consumption], [8, true, 2 + 4]);
+  });
+});
+
+describe('resample', () => {
+  it('reads timestamps without an offset in the given timezone', () => {
+    const rows = [
+      { timestamp: '2024-05-01 05:40:00', D1: 1 },
+      { timestamp: '2024-05-01 06:10:00', D1: 3 }
+    ];
+
+    const hourly = resample(rows, { interval: '1h', tz: 'Asia/Kolkata' });
+
+    assert.deepEqual(hourly, [
+      { timestamp: '2024-04-30T23:30:00.000Z', D1: 1 },
+      { timestamp: '2024-05-01T00:30:00.000Z', D1: 3 }
+    ]);
+  });
+});
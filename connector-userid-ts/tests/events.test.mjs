@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventsHandler, MachineTimeline } from '../dist/index.js';
+import { startServer } from './helpers.mjs';
+
+const categories = [
+  { _id: 'tag-door', name: 'Door' },
+  { _id: 'tag-alarm', name: 'Alarm' }
+];
+
+const events = Array.from({ length: 30 }, (_, i) => ({
+  _id: `seed-${i}`,
+  message: `Event ${i}`,
+  eventTags: [i % 3 === 0 ? 'tag-alarm' : 'tag-door'],
+  createdOn: new Date(Date.UTC(2024, 4, 1, 0, i)).toISOString()
+}));
+
+const tableRows = [
+  { _id: 'r1', devID: 'TIMELINE_01', data: { D0: '2024-05-01 09:00:00', D2: 'Running' } },
+  { _id: 'r2', devID: 'TIMELINE_01', data: { D0: '2024-05-01 10:00:00', D2: 'Downtime' } },
+  { _id: 'r3', devID: 'TIMELINE_02', data: { D0: '2024-05-01 09:30:00', D2: 'Running' } }
+];
+
+describe('EventsHandler and MachineTimeline against the mock server', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({
+      pageSize: 7,
+      dataset: { eventCategories: categories, events: [...events], tableRows: [...tableRows] }
+    }));
+  });
+
+  after(() => server.stop());
+
+  it('lists event categories', async () => {
+    const handler = new EventsHandler(config);
+    assert.deepEqual(await handler.getEventCategories(), categories);
+  });
+
+  it('publishes an event with tags resolved from category names', async () => {
+    const handler = new EventsHandler(config);
+    const event = await handler.publishEvent({
+      message: 'Door opened',
+      metaData: '{}',
+      hoverData: '',
+      eventNamesList: ['Door'],
+      createdOn: '2024-05-01T01:00:00Z'
+    });
+    assert.deepEqual(event.eventTags, ['tag-door']);
+    assert.equal(server.requestsTo('/api/eventTag/publishEvent').at(-1).headers.userid, config.userId);
+  });
+
+  it('fetches events in a time slot', async () => {
+    const handler = new EventsHandler(config);
+    const slot = await handler.getEventsInTimeslot({
+      startTime: '2024-05-01T00:10:00Z',
+      endTime: '2024-05-01T00:19:00Z'
+    });
+    assert.deepEqual(slot.map(event => event._id), events.slice(10, 20).map(event => event._id));
+  });
+
+  it('pages through detailed events until the total count is reached', async () => {
+    const handler = new EventsHandler(config);
+    const before = server.requestsTo('/api/eventTag/eventLogger').length;
+    const alarms = await handler.getDetailedEvent({
+      eventTagsList: ['tag-alarm', 'tag-door'],
+      startTime: '2024-05-01T00:00:00Z',
+      endTime: '2024-05-01T00:29:00Z'
+    });
+
+    assert.equal(alarms.length, 30);
+    // 30 events in pages of 7
+    assert.equal(server.requestsTo('/api/eventTag/eventLogger').length - before, 5);
+  });
+
+  it('reads custom table rows of one device', async () => {
+    const timeline = new MachineTimeline({ ...config, tz: 'Asia/Kolkata' });
+    const rows = await timeline.getMongoData({ devID: 'TIMELINE_01' });
+    assert.deepEqual(rows.map(row => row.data.D2), ['Running', 'Downtime']);
+  });
+
+  it('converts time filters to IST before querying table rows', async () => {
+    const timeline = new MachineTimeline({ ...config, tz: 'UTC' });
+    await timeline.getMongoData({ devID: 'TIMELINE_01', startTime: '2024-05-01 04:00:00' });
+    assert.equal(server.requestsTo('/api/table/getRows3').at(-1).body.startTime, '2024-05-01 09:30:00');
+  });
+});
@@ -0,0 +1,135 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { DataAccess, writeCsv, writeNdjson, writeParquet } from '../dist/index.js';
+import { DEVICE_ID, MINUTE, T0, startServer } from './helpers.mjs';
+
+describe('exports', () => {
+  let server;
+  let config;
+  let dir;
+
+  before(async () => {
+    // 25 datapoints per page splits the hour into several batches
+    ({ server, config } = await startServer({ pageSize: 25 }));
+    dir = await mkdtemp(join(tmpdir(), 'iosense-export-'));
+  });
+
+  after(async () => {
+    await server.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const stream = () =>
+    new DataAccess(config).dataQueryStream({
+      deviceId: DEVICE_ID,
+      startTime: T0,
+      endTime: T0 + 59 * MINUTE,
+      cal: false
+    });
+
+  const readParquet = async file => {
+    const buffer = await readFile(file);
+    const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    return { metadata: parquetMetadata(arrayBuffer), rows: await parquetReadObjects({ file: arrayBuffer }) };
+  };
+
+  describe('writeCsv', () => {
+    it('streams every batch of a query under one header', async () => {
+      const file = join(dir, 'query.csv');
+
+      const count = await writeCsv(stream(), file);
+
+      const lines = (await readFile(file, 'utf8')).trimEnd().split('\n');
+      assert.equal(count, 60);
+      assert.equal(lines.length, 61);
+      assert.equal(lines[0], 'timestamp,D1,D2,D3');
+      assert.equal(lines[1], `${new Date(T0).toISOString()},0,0,100`);
+      assert.equal(lines[60], `${new Date(T0 + 59 * MINUTE).toISOString()},59,9,159`);
+    });
+
+    it('quotes fields and writes missing values as the null value', async () => {
+      const file = join(dir, 'quoting.csv');
+      const rows = [
+        { timestamp: T0, note: 'a;b', label: 'say "hi"', comment: 'two\nlines', D1: null },
+        { timestamp: T0 + MINUTE, note: 'plain' }
+      ];
+
+      await writeCsv(rows, file, { delimiter: ';', nullValue: 'NA', columns: ['timestamp', 'note', 'label', 'comment', 'D1'] });
+
+      assert.equal(
+        await readFile(file, 'utf8'),
+        'timestamp;note;label;comment;D1\n' +
+          `${T0};"a;b";"say ""hi""";"two\nlines";NA\n` +
+          `${T0 + MINUTE};plain;NA;NA;NA\n`
+      );
+    });
+  });
+
+  describe('writeNdjson', () => {
+    it('streams every batch of a query, one object per line', async () => {
+      const file = join(dir, 'query.ndjson');
+
+      const count = await writeNdjson(stream(), file, { timeFormat: 'unix' });
+
+      const records = (await readFile(file, 'utf8')).trimEnd().split('\n').map(line => JSON.parse(line));
+      assert.equal(count, 60);
+      assert.deepEqual(records[0], { timestamp: T0, D1: '0', D2: '0', D3: '100' });
+      assert.equal(records[59].timestamp, T0 + 59 * MINUTE);
+    });
+
+    it('writes missing values as null', async () => {
+      const file = join(dir, 'nulls.ndjson');
+
+      await writeNdjson([[{ timestamp: T0, D1: 1, D2: 2 }], [{ timestamp: T0 + MINUTE, D1: null }]], file);
+
+      const records = (await readFile(file, 'utf8')).trimEnd().split('\n').map(line => JSON.parse(line));
+      assert.deepEqual(records[1], { timestamp: T0 + MINUTE, D1: null, D2: null });
+    });
+  });
+
+  describe('writeParquet', () => {
+    it('writes each batch of a query as its own row group', async () => {
+      const file = join(dir, 'query.parquet');
+      const batches = [];
+      for await (const batch of stream()) batches.push(batch);
+
+      const count = await writeParquet(batches, file);
+
+      const { metadata, rows } = await readParquet(file);
+      assert.equal(count, 60);
+      assert.ok(batches.length > 1);
+      assert.equal(metadata.row_groups.length, batches.length);
+      assert.equal(rows.length, 60);
+      assert.equal(new Date(rows[0].timestamp).getTime(), T0);
+      assert.deepEqual([rows[59].D1, rows[59].D2, rows[59].D3], [59, 9, 159]);
+    });
+
+    it('splits batches into row groups of rowGroupSize', async () => {
+      const file = join(dir, 'groups.parquet');
+      const rows = Array.from({ length: 12 }, (_, i) => ({ timestamp: T0 + i * MINUTE, D1: i }));
+
+      await writeParquet(rows, file, { rowGroupSize: 5 });
+
+      const { metadata } = await readParquet(file);
+      assert.deepEqual(metadata.row_groups.map(group => Number(group.num_rows)), [5, 5, 2]);
+    });
+
+    it('keeps nulls and stores values that do not fit a later batch as null', async () => {
+      const file = join(dir, 'nulls.parquet');
+      const batches = [
+        [{ timestamp: T0, D1: '1.5', note: 'ok' }],
+        [{ timestamp: T0 + MINUTE, D1: 'n/a', note: null }, { timestamp: T0 + 2 * MINUTE, D1: null, note: 'x' }]
+      ];
+
+      await writeParquet(batches, file);
+
+      const { rows } = await readParquet(file);
+      assert.deepEqual(rows.map(row => row.D1), [1.5, null, null]);
+      assert.deepEqual(rows.map(row => row.note), ['ok', null, 'x']);
+    });
+  });
+});
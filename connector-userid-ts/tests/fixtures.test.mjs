@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DataAccess } from '../dist/index.js';
+import { MockIosenseServer } from '../dist/testing/mockServer.js';
+import { DEVICE_ID, MINUTE, T0, startServer } from './helpers.mjs';
+
+describe('record and replay', () => {
+  let dir;
+  let fixtureFile;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'iosense-fixtures-'));
+    fixtureFile = join(dir, 'query.json');
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const run = host =>
+    new DataAccess({ userId: 'test-user', dataUrl: host, dsUrl: host, onPrem: true }).dataQuery({
+      deviceId: DEVICE_ID,
+      startTime: T0,
+      endTime: T0 + 30 * MINUTE,
+      alias: true
+    });
+
+  it('records upstream responses and replays them without the upstream', async () => {
+    // The mock stands in for the live backend here
+    const { server: upstream } = await startServer({ pageSize: 20 });
+    const recorder = new MockIosenseServer({
+      mode: 'record',
+      target: `http://${upstream.host}`,
+      fixtureFile
+    });
+    const recorded = await run(await recorder.start());
+    await recorder.stop();
+    await upstream.stop();
+
+    const fixtures = JSON.parse(await readFile(fixtureFile, 'utf8'));
+    assert.ok(fixtures.entries.some(entry => entry.path === '/api/apiLayer/getAllData'));
+    assert.ok(fixtures.entries.every(entry => !('headers' in entry)));
+
+    const replayer = new MockIosenseServer({ mode: 'replay', fixtureFile });
+    const replayed = await run(await replayer.start());
+    await replayer.stop();
+
+    assert.equal(recorded.length, 31);
+    assert.deepEqual(replayed, recorded);
+  });
+
+  it('answers unrecorded requests with 404', async () => {
+    const replayer = new MockIosenseServer({ mode: 'replay', fixtureFile });
+    const host = await replayer.start();
+    try {
+      const dataAccess = new DataAccess({ userId: 'test-user', dataUrl: host, dsUrl: host, onPrem: true });
+      await assert.rejects(dataAccess.getDeviceMetaData('OTHER_DEVICE'), error => error.status === 404);
+    } finally {
+      await replayer.stop();
+    }
+  });
+});
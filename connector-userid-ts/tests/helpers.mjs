@@ -0,0 +1,57 @@
+import { HttpTransport } from '../dist/index.js';
+import { MockIosenseServer } from '../dist/testing/mockServer.js';
+
+export const USER_ID = 'test-user';
+export const DEVICE_ID = 'SDPLYPLC_01';
+export const T0 = Date.UTC(2024, 4, 1);
+export const MINUTE = 60000;
+
+/**
+ * One device with three sensors sampled every minute for an hour:
+ * D1 is linear calibrated (m=2, c=1), D2 uses a lookup table and D3 is raw.
+ */
+export function dataset() {
+  const points = [];
+  for (let i = 0; i < 60; i++) {
+    const time = new Date(T0 + i * MINUTE).toISOString();
+    points.push(
+      { time, sensor: 'D1', value: String(i) },
+      { time, sensor: 'D2', value: String(i % 10) },
+      { time, sensor: 'D3', value: String(100 + i) }
+    );
+  }
+  return {
+    metadata: {
+      [DEVICE_ID]: {
+        devTypeID: 'PLC',
+        sensors: [
+          { sensorId: 'D1', sensorName: 'Mould Temperature' },
+          { sensorId: 'D2', sensorName: 'Pressure' },
+          { sensorId: 'D3', sensorName: 'Shot Count' }
+        ],
+        params: {
+          D1: [
+            { paramName: 'm', paramValue: '2' },
+            { paramName: 'c', paramValue: '1' }
+          ],
+          D2: [{ paramName: 'table', paramValue: '0:0,10:100' }]
+        }
+      }
+    },
+    data: { [DEVICE_ID]: points }
+  };
+}
+
+/**
+ * Starts a mock server and returns it with a fast-retrying transport.
+ */
+export async function startServer(options = {}) {
+  const server = new MockIosenseServer({ dataset: dataset(), userId: USER_ID, ...options });
+  await server.start();
+  const transport = new HttpTransport({
+    timeoutMs: 2000,
+    retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, jitter: false }
+  });
+  const config = { userId: USER_ID, dataUrl: server.host, dsUrl: server.host, onPrem: true, transport };
+  return { server, transport, config };
+}
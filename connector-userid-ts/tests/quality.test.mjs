@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataAccess, dataQualityReport } from '../dist/index.js';
+import { MINUTE, T0, startServer } from './helpers.mjs';
+
+const DEVICE = 'Q_01';
+
+/**
+ * One hour of minute data: T is missing for minutes 20-29 and reads 150 at
+ * minute 40, outside its 0-100 range; P is stuck at 7 for the first 15 minutes.
+ */
+function qualityDataset() {
+  const points = [];
+  for (let i = 0; i < 60; i++) {
+    const time = new Date(T0 + i * MINUTE).toISOString();
+    if (i < 20 || i >= 30) {
+      points.push({ time, sensor: 'T', value: String(i === 40 ? 150 : 20 + (i % 5)) });
+    }
+    points.push({ time, sensor: 'P', value: String(i < 15 ? 7 : i) });
+  }
+  return {
+    metadata: {
+      [DEVICE]: {
+        sensors: [
+          { sensorId: 'T', sensorName: 'Temperature' },
+          { sensorId: 'P', sensorName: 'Pressure' }
+        ],
+        params: {
+          T: [
+            { paramName: 'min', paramValue: '0' },
+            { paramName: 'max', paramValue: '100' }
+          ]
+        }
+      }
+    },
+    data: { [DEVICE]: points }
+  };
+}
+
+describe('dataQualityReport', () => {
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({ dataset: qualityDataset() }));
+  });
+
+  after(() => server.stop());
+
+  const report = async (dataAccessOptions = {}, queryOptions = {}, reportOptions = {}) => {
+    const dataAccess = new DataAccess({ ...config, ...dataAccessOptions });
+    const metadata = await dataAccess.getDeviceMetaData(DEVICE);
+    const rows = await dataAccess.dataQuery({
+      deviceId: DEVICE,
+      startTime: T0,
+      endTime: T0 + 60 * MINUTE,
+      cal: false,
+      ...queryOptions
+    });
+    const result = dataQualityReport(rows, { metadata, ...reportOptions });
+    return Object.fromEntries(result.sensors.map(sensor => [sensor.sensor, sensor]));
+  };
+
+  it('reports gaps, flatlines and out-of-range values per sensor', async () => {
+    const { T, P } = await report();
+
+    assert.deepEqual(T.gaps, [{ start: T0 + 19 * MINUTE, end: T0 + 30 * MINUTE, durationMs: 11 * MINUTE }]);
+    assert.deepEqual(T.outOfRange, [{ time: T0 + 40 * MINUTE, value: 150, min: 0, max: 100 }]);
+    assert.deepEqual(T.flatlines, []);
+    assert.deepEqual(P.flatlines, [{ start: T0, end: T0 + 14 * MINUTE, count: 15, value: 7 }]);
+    assert.deepEqual(P.gaps, []);
+  });
+
+  it('skips the raw value columns', async () => {
+    const sensors = await report({}, { rawValues: true });
+
+    assert.deepEqual(Object.keys(sensors).sort(), ['P', 'T']);
+  });
+
+  it('reads local timestamps in the given timezone', async () => {
+    const { T } = await report({ tz: 'Asia/Kolkata' }, { timeFormat: 'local' }, { tz: 'Asia/Kolkata' });
+
+    assert.equal(T.firstTime, T0);
+    assert.equal(T.gaps[0].start, T0 + 19 * MINUTE);
+  });
+});
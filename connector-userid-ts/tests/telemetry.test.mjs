@@ -0,0 +1,170 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataAccess, HttpTransport, createOpenTelemetryTracer } from '../dist/index.js';
+import { DEVICE_ID, MINUTE, T0, startServer } from './helpers.mjs';
+
+/**
+ * Tracer keeping every span, with its parent and attributes.
+ */
+function recordingTracer() {
+  const spans = [];
+  return {
+    spans,
+    startSpan(name, attributes, parent) {
+      const span = {
+        name,
+        attributes: { ...attributes },
+        parent,
+        errors: [],
+        ended: false,
+        setAttribute: (key, value) => { span.attributes[key] = value; },
+        recordError: error => span.errors.push(error),
+        end: () => { span.ended = true; }
+      };
+      spans.push(span);
+      return span;
+    }
+  };
+}
+
+describe('transport hooks', () => {
+  let server;
+  let config;
+  const events = [];
+  const hooks = {
+    onRequest: info => events.push({ hook: 'request', ...info }),
+    onResponse: info => events.push({ hook: 'response', ...info }),
+    onRetry: info => events.push({ hook: 'retry', ...info }),
+    onError: info => events.push({ hook: 'error', ...info })
+  };
+
+  before(async () => {
+    ({ server, config } = await startServer({ pageSize: 20 }));
+    config.transport = new HttpTransport({ hooks, retry: { maxRetries: 1, baseDelayMs: 1, jitter: false } });
+  });
+
+  after(() => server.stop());
+
+  it('reports every request with its public method, endpoint, device and page', async () => {
+    events.length = 0;
+    const dataAccess = new DataAccess(config);
+
+    await dataAccess.dataQuery({ deviceId: DEVICE_ID, sensorList: ['D1'], startTime: T0, endTime: T0 + 60 * MINUTE });
+
+    const metadata = events.find(e => e.endpoint === '/api/metaData/device/{device_id}');
+    assert.equal(metadata.operation, 'getDeviceMetaData');
+    assert.equal(metadata.deviceId, DEVICE_ID);
+
+    // dataQuery reads the pages through dataQueryStream, a nested public call
+    const pages = events.filter(e => e.hook === 'response' && e.operation === 'dataQueryStream');
+    assert.ok(pages.length > 1);
+    assert.deepEqual(pages.map(e => e.page), pages.map((_, i) => i + 1));
+    assert.ok(pages.every(e => e.endpoint === '/api/apiLayer/getAllData' && e.method === 'GET' && e.status === 200 && e.durationMs >= 0));
+    assert.ok(pages.every(e => e.deviceId === DEVICE_ID));
+  });
+
+  it('reports retries and final failures', async () => {
+    events.length = 0;
+    const dataAccess = new DataAccess({ ...config, cacheTtlMs: 0 });
+    server.fail('/api/metaData/user', { status: 503, times: 2 });
+
+    await assert.rejects(dataAccess.getUserInfo());
+
+    assert.deepEqual(events.map(e => e.hook), ['request', 'retry', 'request', 'error']);
+    assert.equal(events[1].status, 503);
+    assert.equal(events[1].attempt, 1);
+    assert.equal(events[3].operation, 'getUserInfo');
+    assert.equal(events[3].status, 503);
+  });
+
+  it('never fails a request because of a hook', async () => {
+    const transport = new HttpTransport({ hooks: { onResponse: () => { throw new Error('metrics down'); } } });
+    const dataAccess = new DataAccess({ ...config, transport });
+
+    const info = await dataAccess.getUserInfo();
+
+    assert.ok(info._id);
+  });
+});
+
+describe('tracing', () => {
+  let server;
+  let config;
+  let tracer;
+
+  before(async () => {
+    ({ server, config } = await startServer({ pageSize: 20 }));
+  });
+
+  after(() => server.stop());
+
+  it('creates a span per public call with a child span per page', async () => {
+    tracer = recordingTracer();
+    const dataAccess = new DataAccess({ ...config, transport: new HttpTransport({ tracer }) });
+
+    await dataAccess.dataQuery({ deviceId: DEVICE_ID, sensorList: ['D1'], startTime: T0, endTime: T0 + 60 * MINUTE });
+
+    const query = tracer.spans.find(s => s.name === 'iosense.dataQuery');
+    assert.equal(query.parent, undefined);
+    assert.equal(query.attributes['iosense.device_id'], DEVICE_ID);
+    const stream = tracer.spans.find(s => s.name === 'iosense.dataQueryStream');
+    assert.equal(stream.parent, query);
+    assert.equal(tracer.spans.find(s => s.name === 'iosense.getDeviceMetaData').parent, stream);
+    const pages = tracer.spans.filter(s => s.parent === stream && s.name === 'GET /api/apiLayer/getAllData');
+    assert.equal(pages.length, 3);
+    assert.equal(stream.attributes['iosense.pages'], 3);
+    assert.deepEqual(pages.map(s => s.attributes['iosense.page']), [1, 2, 3]);
+    assert.ok(tracer.spans.every(s => s.ended));
+  });
+
+  it('ends stream spans when the consumer stops early', async () => {
+    tracer = recordingTracer();
+    const dataAccess = new DataAccess({ ...config, transport: new HttpTransport({ tracer }) });
+
+    for await (const batch of dataAccess.dataQueryStream({ deviceId: DEVICE_ID, sensorList: ['D1'], startTime: T0, endTime: T0 + 60 * MINUTE })) {
+      assert.ok(batch.length > 0);
+      break;
+    }
+
+    const call = tracer.spans.find(s => s.name === 'iosense.dataQueryStream');
+    assert.ok(call.ended);
+    assert.equal(call.attributes['iosense.pages'], 1);
+  });
+
+  it('records errors on the call and page spans', async () => {
+    tracer = recordingTracer();
+    const dataAccess = new DataAccess({ ...config, transport: new HttpTransport({ tracer, retry: { maxRetries: 0 } }) });
+
+    await assert.rejects(dataAccess.getDeviceMetaData('UNKNOWN'));
+
+    const [call, page] = tracer.spans;
+    assert.equal(call.name, 'iosense.getDeviceMetaData');
+    assert.equal(page.attributes['http.response.status_code'], 404);
+    assert.equal(call.errors.length, 1);
+    assert.equal(page.errors.length, 1);
+  });
+
+  it('adapts an OpenTelemetry tracer', async () => {
+    const started = [];
+    const api = {
+      context: { active: () => ({ root: true }) },
+      trace: { setSpan: (context, span) => ({ parent: span }) },
+      SpanStatusCode: { ERROR: 2 }
+    };
+    const otelTracer = {
+      startSpan(name, options, context) {
+        const span = { name, options, context, setAttribute() {}, recordException() {}, setStatus() {}, end() {} };
+        started.push(span);
+        return span;
+      }
+    };
+    const dataAccess = new DataAccess({ ...config, transport: new HttpTransport({ tracer: createOpenTelemetryTracer(otelTracer, api) }) });
+
+    await dataAccess.getUserInfo();
+
+    assert.deepEqual(started.map(s => s.name), ['iosense.getUserInfo', 'GET /api/metaData/user']);
+    assert.deepEqual(started[0].context, { root: true });
+    assert.equal(started[1].context.parent, started[0]);
+    assert.equal(started[0].options.attributes['iosense.device_id'], undefined);
+  });
+});
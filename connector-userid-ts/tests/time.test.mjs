@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError, parseTime } from '../dist/index.js';
+
+describe('parseTime', () => {
+  it('reads naive strings in the given timezone', () => {
+    assert.equal(parseTime('2024-05-01 08:00:00', 'Asia/Kolkata'), Date.UTC(2024, 4, 1, 2, 30));
+    assert.equal(parseTime('2024-05-01T08:00:00Z', 'Asia/Kolkata'), Date.UTC(2024, 4, 1, 8));
+  });
+
+  it('accepts the last day of each month, including 29 February in leap years', () => {
+    assert.equal(parseTime('2024-02-29'), Date.UTC(2024, 1, 29));
+    assert.equal(parseTime('2000-02-29 12:00'), Date.UTC(2000, 1, 29, 12));
+    assert.equal(parseTime('2024-04-30T23:59:59Z'), Date.UTC(2024, 3, 30, 23, 59, 59));
+  });
+
+  it('rejects days the month does not have instead of rolling over', () => {
+    for (const time of ['2024-02-30', '2023-02-29 08:00', '1900-02-29', '2024-04-31T00:00:00', '2024-02-31T00:00:00Z', '2024-06-31T08:00:00+05:30']) {
+      assert.throws(() => parseTime(time, 'Asia/Kolkata'), ValidationError, time);
+    }
+  });
+});
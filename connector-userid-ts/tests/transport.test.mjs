@@ -0,0 +1,343 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, request } from 'node:http';
+import {
+  ApiError,
+  DataAccess,
+  EventsHandler,
+  HttpTransport,
+  IosenseClient,
+  MachineTimeline,
+  MaxRetriesExceededError,
+  ValidationError,
+  resolveBaseUrl
+} from '../dist/index.js';
+import { DEVICE_ID, MINUTE, T0, USER_ID, startServer } from './helpers.mjs';
+
+describe('retries', () => {
+  let server;
+  let config;
+  let dataAccess;
+
+  before(async () => {
+    ({ server, config } = await startServer({ pageSize: 100 }));
+  });
+
+  beforeEach(() => {
+    dataAccess = new DataAccess({ ...config, validateDevices: false });
+  });
+
+  after(() => server.stop());
+
+  const query = () =>
+    dataAccess.dataQuery({
+      deviceId: DEVICE_ID,
+      sensorList: ['D1'],
+      startTime: T0,
+      endTime: T0 + 60 * MINUTE,
+      cal: false
+    });
+
+  it('retries 5xx responses and completes the query', async () => {
+    server.fail('/api/apiLayer/getAllData', { status: 503, times: 2 });
+    const before = server.requestsTo('/api/apiLayer/getAllData').length;
+
+    const rows = await query();
+
+    assert.equal(rows.length, 60);
+    assert.equal(server.requestsTo('/api/apiLayer/getAllData').length - before, 3);
+  });
+
+  it('retries a failed page without restarting the cursor', async () => {
+    const before = server.requestsTo('/api/apiLayer/getAllData').length;
+    const paged = new DataAccess({ ...config, validateDevices: false });
+    await paged.getDeviceMetaData(DEVICE_ID);
+    server.fail('/api/apiLayer/getAllData', { status: 500 });
+
+    const rows = await paged.dataQuery({
+      deviceId: DEVICE_ID,
+      startTime: T0,
+      endTime: T0 + 60 * MINUTE,
+      cal: false
+    });
+
+    assert.equal(rows.length, 60);
+    const starts = server.requestsTo('/api/apiLayer/getAllData').slice(before).map(r => r.query.sTime);
+    assert.equal(starts[0], starts[1]);
+  });
+
+  it('retries 429 responses', async () => {
+    server.fail('/api/metaData/device/', { status: 429 });
+    const metadata = await dataAccess.getDeviceMetaData(DEVICE_ID);
+    assert.equal(metadata.sensors.length, 3);
+  });
+
+  it('throws MaxRetriesExceededError once retries are exhausted', async () => {
+    server.fail('/api/apiLayer/getAllData', { status: 502, times: 3 });
+    await assert.rejects(query(), error => {
+      assert.ok(error instanceof MaxRetriesExceededError);
+      assert.equal(error.attempts, 3);
+      return true;
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    server.fail('/api/apiLayer/getAllData', { status: 400, body: { success: false, message: 'bad request' } });
+    const before = server.requestsTo('/api/apiLayer/getAllData').length;
+
+    await assert.rejects(query(), error => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.status, 400);
+      assert.deepEqual(error.body, { success: false, message: 'bad request' });
+      return true;
+    });
+    assert.equal(server.requestsTo('/api/apiLayer/getAllData').length - before, 1);
+  });
+
+  it('rejects requests with the wrong user ID', async () => {
+    const stranger = new DataAccess({ ...config, userId: 'someone-else' });
+    await assert.rejects(stranger.getUserInfo(), error => error instanceof ApiError && error.status === 401);
+  });
+
+  it('never retries event publishing', async () => {
+    const events = new EventsHandler(config);
+    server.fail('/api/eventTag/publishEvent', { status: 503 });
+    const before = server.requestsTo('/api/eventTag/publishEvent').length;
+
+    await assert.rejects(events.publishEvent({ message: 'Door open', metaData: '{}', hoverData: '', eventTagsList: ['tag'] }));
+    assert.equal(server.requestsTo('/api/eventTag/publishEvent').length - before, 1);
+  });
+});
+
+describe('base URLs', () => {
+  let server;
+  let transport;
+
+  before(async () => {
+    ({ server, transport } = await startServer({ pathPrefix: '/iosense' }));
+  });
+
+  after(() => server.stop());
+
+  it('normalises strings and host, port and prefix objects', () => {
+    assert.equal(resolveBaseUrl('https://iosense.plant.local:8443/iosense/'), 'https://iosense.plant.local:8443/iosense');
+    assert.equal(resolveBaseUrl({ host: 'iosense.plant.local', port: 8443, pathPrefix: 'iosense' }), 'https://iosense.plant.local:8443/iosense');
+    assert.equal(resolveBaseUrl({ protocol: 'http', host: '10.0.0.5' }), 'http://10.0.0.5');
+    assert.throws(() => resolveBaseUrl('ftp://host'), ValidationError);
+    assert.throws(() => resolveBaseUrl({ host: 'host', port: 70000 }), ValidationError);
+  });
+
+  it('sends requests under the path prefix instead of dataUrl', async () => {
+    const dataAccess = new DataAccess({ userId: USER_ID, dataUrl: 'unused.invalid', dsUrl: 'unused.invalid', baseUrl: server.url, transport });
+
+    const metadata = await dataAccess.getDeviceMetaData(DEVICE_ID);
+
+    assert.equal(metadata.sensors.length, 3);
+    assert.equal(server.requests.at(-1).path, `/api/metaData/device/${DEVICE_ID}`);
+  });
+
+  it('can be set per service on the client', async () => {
+    const client = new IosenseClient({
+      userId: USER_ID,
+      dataUrl: server.host,
+      onPrem: true,
+      transport,
+      baseUrls: { events: server.url, data: server.url }
+    });
+
+    await client.events.getEventCategories();
+    await assert.rejects(client.timeline.getMongoData({ devID: DEVICE_ID }), err => err instanceof ApiError && err.status === 404);
+  });
+});
+
+describe('proxies', () => {
+  let server;
+  let proxy;
+  const proxied = [];
+
+  before(async () => {
+    ({ server } = await startServer());
+    // Minimal forward proxy: plain http requests arrive with an absolute URL
+    proxy = createServer((req, res) => {
+      proxied.push(req.url);
+      const upstream = request(req.url, { method: req.method, headers: req.headers }, response => {
+        res.writeHead(response.statusCode, response.headers);
+        response.pipe(res);
+      });
+      req.pipe(upstream);
+    });
+    await new Promise(resolve => proxy.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(async () => {
+    proxy.closeAllConnections();
+    await new Promise(resolve => proxy.close(resolve));
+    await server.stop();
+  });
+
+  it('sends requests through the configured proxy', async () => {
+    const dataAccess = new DataAccess({
+      userId: USER_ID,
+      dataUrl: server.host,
+      dsUrl: server.host,
+      onPrem: true,
+      proxy: `http://127.0.0.1:${proxy.address().port}`
+    });
+
+    const metadata = await dataAccess.getDeviceMetaData(DEVICE_ID);
+
+    assert.equal(metadata.sensors.length, 3);
+    assert.deepEqual(proxied, [`http://${server.host}/api/metaData/device/${DEVICE_ID}`]);
+  });
+
+  it('rejects proxy URLs with other protocols', () => {
+    assert.throws(() => new HttpTransport({ proxy: 'socks5://127.0.0.1:1080' }), ValidationError);
+  });
+});
+
+describe('request coalescing', () => {
+  const tableRows = [
+    { _id: 'r1', devID: 'TIMELINE_01', data: { D0: '2024-05-01 09:00:00', D2: 'Running' } },
+    { _id: 'r2', devID: 'TIMELINE_01', data: { D0: '2024-05-01 10:00:00', D2: 'Downtime' } }
+  ];
+  let server;
+  let config;
+
+  before(async () => {
+    ({ server, config } = await startServer({ dataset: { tableRows } }));
+  });
+
+  after(() => server.stop());
+
+  const getRows3 = () => server.requestsTo('/api/table/getRows3').length;
+
+  it('sends identical concurrent getRows3 queries once', async () => {
+    const timeline = new MachineTimeline(config);
+    const before = getRows3();
+
+    const results = await Promise.all(
+      Array.from({ length: 4 }, () => timeline.getMongoData({ devID: 'TIMELINE_01' }))
+    );
+
+    assert.equal(getRows3() - before, 1);
+    for (const rows of results) {
+      assert.deepEqual(rows.map(row => row.data.D2), ['Running', 'Downtime']);
+    }
+  });
+
+  it('gives every caller its own copy of the response', async () => {
+    const timeline = new MachineTimeline(config);
+
+    const [first, second] = await Promise.all([
+      timeline.getMongoData({ devID: 'TIMELINE_01' }),
+      timeline.getMongoData({ devID: 'TIMELINE_01' })
+    ]);
+    first[0].data.D2 = 'Changed';
+
+    assert.equal(second[0].data.D2, 'Running');
+  });
+
+  it('sends different queries and writes separately', async () => {
+    const timeline = new MachineTimeline(config);
+    const before = getRows3();
+    const writes = server.requestsTo('/api/table/createRows3').length;
+    const row = { devID: 'TIMELINE_02', data: { D0: '2024-05-01 11:00:00', D2: 'Running' } };
+
+    await Promise.all([
+      timeline.getMongoData({ devID: 'TIMELINE_01' }),
+      timeline.getMongoData({ devID: 'TIMELINE_01', limit: 1 }),
+      timeline.createMongoData({ data: [row] }),
+      timeline.createMongoData({ data: [row] })
+    ]);
+
+    assert.equal(getRows3() - before, 2);
+    assert.equal(server.requestsTo('/api/table/createRows3').length - writes, 2);
+  });
+
+  it('keeps the shared request going until every caller has aborted', async () => {
+    const timeline = new MachineTimeline(config);
+    const controller = new AbortController();
+    const before = getRows3();
+
+    const aborted = timeline.getMongoData({ devID: 'TIMELINE_01', signal: controller.signal });
+    const kept = timeline.getMongoData({ devID: 'TIMELINE_01' });
+    controller.abort(new Error('cancelled'));
+
+    await assert.rejects(aborted, /cancelled/);
+    assert.equal((await kept).length, 2);
+    assert.equal(getRows3() - before, 1);
+  });
+
+  it('can be turned off', async () => {
+    const transport = new HttpTransport({ coalesce: false });
+    const timeline = new MachineTimeline({ ...config, transport });
+    const before = getRows3();
+
+    await Promise.all([
+      timeline.getMongoData({ devID: 'TIMELINE_01' }),
+      timeline.getMongoData({ devID: 'TIMELINE_01' })
+    ]);
+
+    assert.equal(getRows3() - before, 2);
+  });
+});
+
+describe('rate limiting', () => {
+  let server;
+  let metadataUrl;
+
+  before(async () => {
+    ({ server } = await startServer());
+    metadataUrl = `http://${server.host}/api/metaData/device/${DEVICE_ID}`;
+  });
+
+  after(() => server.stop());
+
+  const fetchMetadata = (transport, count, options = {}) =>
+    Promise.all(
+      Array.from({ length: count }, () =>
+        transport.get(metadataUrl, { headers: { userID: USER_ID }, coalesce: false, ...options })
+      )
+    );
+
+  it('spaces requests to a host by the configured rate', async () => {
+    const transport = new HttpTransport({ rateLimit: { requestsPerSecond: 20, burst: 2 } });
+    const started = Date.now();
+
+    await fetchMetadata(transport, 6);
+
+    // Two requests go at once, the other four wait 50ms each
+    assert.ok(Date.now() - started >= 190, `took ${Date.now() - started}ms`);
+  });
+
+  it('uses the limit given for the host', async () => {
+    const transport = new HttpTransport({
+      rateLimit: { requestsPerSecond: 1, hosts: { [server.host]: { requestsPerSecond: 1000, burst: 10 } } }
+    });
+    const started = Date.now();
+
+    await fetchMetadata(transport, 5);
+
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    const transport = new HttpTransport({ rateLimit: { requestsPerSecond: 0.5 } });
+    await fetchMetadata(transport, 1);
+    const before = server.requestsTo(`/api/metaData/device/${DEVICE_ID}`).length;
+
+    await assert.rejects(
+      fetchMetadata(transport, 1, { signal: AbortSignal.timeout(20) }),
+      error => error.name === 'TimeoutError'
+    );
+    assert.equal(server.requestsTo(`/api/metaData/device/${DEVICE_ID}`).length, before);
+  });
+
+  it('rejects invalid limits', () => {
+    assert.throws(() => new HttpTransport({ rateLimit: { requestsPerSecond: 0 } }), ValidationError);
+    assert.throws(
+      () => new HttpTransport({ rateLimit: { requestsPerSecond: 5, hosts: { 'a.local': { requestsPerSecond: 5, burst: 0 } } } }),
+      /rateLimit.hosts\["a.local"\].burst/
+    );
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Connection settings for the IoSense API, read from Vite environment
+ * variables (see .env.example). Each Vite mode is a named profile: values in
+ * `.env.<mode>` override `.env`, so `vite --mode plant-a` connects with
+ * `.env.plant-a`.
+ *
+ * Missing settings are reported when a service first uses them, so the error
+ * surfaces through the service's normal error handling.
+ */
+function readSetting(name: keyof ImportMetaEnv): string {
+  const value = import.meta.env[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(
+      `${name} is not set; add it to .env.local or .env.${import.meta.env.MODE} (see .env.example)`
+    );
+  }
+  return value.trim();
+}
+
+function isOnPrem(): boolean {
+  return ['1', 'true', 'yes'].includes(
+    String(import.meta.env.VITE_IOSENSE_ON_PREM ?? '').toLowerCase()
+  );
+}
+
+// Configuration for the API calls
+export const API_CONFIG = {
+  get dataUrl(): string {
+    return readSetting('VITE_IOSENSE_DATA_URL');
+  },
+  get userId(): string {
+    return readSetting('VITE_IOSENSE_USER_ID');
+  },
+  get protocol(): string {
+    // On-prem servers are reached over plain http
+    return isOnPrem() ? 'http' : 'https';
+  }
+};
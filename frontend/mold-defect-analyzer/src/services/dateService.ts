@@ -259,4 +259,28 @@ export const getCurrentQuarterNumber = (): number => {
   if (month >= 4 && month <= 6) return 2;
   if (month >= 7 && month <= 9) return 3;
   return 4;
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Formats a date as "YYYY-MM-DD HH:mm:ss" on the wall clock of a timezone,
+ * independent of the browser's own timezone and correct across DST changes
+ */
+export const formatDateInTimeZone = (date: Date, timeZone: string = 'Asia/Kolkata'): string => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      parts[type] = value;
+    });
+
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+};
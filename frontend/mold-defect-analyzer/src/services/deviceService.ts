@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { API_CONFIG } from './apiConfig';
 
 // Device Detail interface to match backend structure
 export interface DeviceDetail {
@@ -12,13 +13,6 @@ export interface ApiResponse<T = any> {
   errors?: string[];
 }
 
-// Configuration for the API call
-const API_CONFIG = {
-  dataUrl: 'datads.iosense.io',
-  userId: '6710eea3340f9be7ffa61634',
-  protocol: 'https' // Using https for production
-};
-
 /**
  * Fetches device details from the IoSense API
  * This function replicates the getDeviceDetails method from the backend DataAccess.ts
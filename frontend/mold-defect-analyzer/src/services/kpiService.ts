@@ -1,5 +1,6 @@
-import axios from 'axios';
-import { DateRange } from './dateService';
+import { API_CONFIG } from './apiConfig';
+import { sharedRequest } from './sharedRequest';
+import { DateRange, formatDateInTimeZone } from './dateService';
 
 /**
  * KPI Service - Implements Monthly Defect Rate Data Calculation
@@ -31,13 +32,6 @@ import { DateRange } from './dateService';
  * 5. Rendering: Only show months that have passed or are ongoing
  */
 
-// Configuration for the API call
-const API_CONFIG = {
-  dataUrl: 'datads.iosense.io',
-  userId: '6710eea3340f9be7ffa61634',
-  protocol: 'https' // Using https for production
-};
-
 // Interface for MongoDB data response
 export interface MongoDataRow {
   _id: string;
@@ -109,19 +103,7 @@ export interface ProductionVsTargetData {
  * Formats date to IST timezone string for MongoDB query
  */
 const formatDateForMongoDB = (date: Date): string => {
-  // Convert to IST (UTC+5:30)
-  const istOffset = 5.5 * 60 * 60 * 1000; // 5.5 hours in milliseconds
-  const istDate = new Date(date.getTime() + istOffset);
-  
-  // Format as YYYY-MM-DD HH:mm:ss
-  const year = istDate.getFullYear();
-  const month = String(istDate.getMonth() + 1).padStart(2, '0');
-  const day = String(istDate.getDate()).padStart(2, '0');
-  const hours = String(istDate.getHours()).padStart(2, '0');
-  const minutes = String(istDate.getMinutes()).padStart(2, '0');
-  const seconds = String(istDate.getSeconds()).padStart(2, '0');
-  
-  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+  return formatDateInTimeZone(date, 'Asia/Kolkata');
 };
 
 /**
@@ -334,7 +316,7 @@ const fetchCycleTime = async (mould: string): Promise<number> => {
   console.log('🔍 Fetching cycle time data from:', url);
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -622,7 +604,7 @@ export const calculateKPIs = async (
   console.log('🔍 Fetching KPI data from:', url);
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -886,7 +868,7 @@ export const calculateMonthlyDefectRateData = async (
   console.log('🎯 Will filter documents by D17 =', mould);
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -1226,7 +1208,7 @@ const getTotalRejectionUnits = async (
   };
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -1420,7 +1402,7 @@ export const calculateDefectReasonBreakdown = async (
   console.log('📊 Using SAME query as KPI calculation for consistency');
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -1591,7 +1573,7 @@ export const calculateProductionVsTargetData = async (
   console.log('🔍 Fetching Production vs Target data from:', url);
 
   try {
-    const response = await axios.post<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('post', url, payload, {
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
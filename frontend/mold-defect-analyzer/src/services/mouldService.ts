@@ -1,11 +1,5 @@
-import axios from 'axios';
-
-// Configuration for the API call
-const API_CONFIG = {
-  dataUrl: 'datads.iosense.io',
-  userId: '6710eea3340f9be7ffa61634',
-  protocol: 'https' // Using https for production
-};
+import { API_CONFIG } from './apiConfig';
+import { sharedRequest } from './sharedRequest';
 
 // Interface for MongoDB data response
 export interface MongoDataRow {
@@ -45,7 +39,7 @@ export const fetchMouldData = async (): Promise<string[]> => {
   console.log('📊 Query payload:', payload);
 
   try {
-    const response = await axios.put<ApiResponse<MongoDataRow[]>>(url, payload, {
+    const response = await sharedRequest<ApiResponse<MongoDataRow[]>>('put', url, payload, {
       headers: {
         userID: API_CONFIG.userId,
         'Content-Type': 'application/json'
@@ -0,0 +1,35 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+type Method = 'put' | 'post';
+
+// Requests currently waiting for a response, keyed by method, URL, body and headers
+const inFlight = new Map<string, Promise<AxiosResponse<unknown>>>();
+
+/**
+ * Sends a read request (such as getRows3) unless an identical one is already
+ * in flight, in which case its response is shared. The dashboard's effects
+ * often ask for the same machine or mould at the same time; this sends one
+ * request to the backend instead of one per effect.
+ *
+ * Every caller gets its own copy of the response body, so callers can sort or
+ * modify the rows without affecting each other.
+ */
+export async function sharedRequest<T>(
+  method: Method,
+  url: string,
+  payload: unknown,
+  config: AxiosRequestConfig = {}
+): Promise<AxiosResponse<T>> {
+  const key = JSON.stringify([method, url, payload, config.headers ?? null]);
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = axios[method]<T>(url, payload, config).finally(() => {
+      inFlight.delete(key);
+    });
+    inFlight.set(key, pending);
+  } else {
+    console.log('♻️ Sharing in-flight request:', url);
+  }
+  const response = (await pending) as AxiosResponse<T>;
+  return { ...response, data: structuredClone(response.data) };
+}
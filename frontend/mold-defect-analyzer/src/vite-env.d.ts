@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_IOSENSE_DATA_URL?: string;
+  readonly VITE_IOSENSE_USER_ID?: string;
+  readonly VITE_IOSENSE_ON_PREM?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}